@@ -1,48 +1,316 @@
-import React, { useState } from 'react';
-import { AppState, QuizData, UserAnswers } from './types';
-import { parsePdfToQuiz } from './services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AppState, AttemptProgress, ExamConfig, ExamSection, ExtractionProgress, MarkingScheme, PaperSource, QuestionHints, QuestionTimes, QuizAttempt, QuizData,
+  QuizSubmission,
+  RetakeConfig, SavedPaper, UserAnswers
+} from './types';
+import { getAIProvider, isAbortError, parsePaperToQuiz } from './services/aiService';
+import { detectMarkingScheme, getMarkingScheme, scoreQuiz } from './services/scoringService';
+import { ReviewSession, collectMistakes, recordReviewResults } from './services/revisionService';
+import { getDefaultExamConfig } from './services/examService';
+import {
+  RetakeOptions, applyRetake, createRetake, getAttemptQuiz, getRetakeChoices, getRetakeExamConfig
+} from './services/retakeService';
+import { bundleToPaper, parseQuizBundle } from './services/bundleService';
+import { getPaperSource } from './services/pdfService';
+import {
+  createId, getActiveAttemptId, getAttempt, getPaper, saveAttempt, savePaper, setActiveAttemptId
+} from './services/storageService';
 import UploadSection from './components/UploadSection';
 import QuizSection from './components/QuizSection';
 import ResultSection from './components/ResultSection';
-import { BrainCircuit, ChevronLeft } from 'lucide-react';
+import HistorySection from './components/HistorySection';
+import ProgressDashboard from './components/ProgressDashboard';
+import RevisionDeckSection from './components/RevisionDeckSection';
+import ExamSetupSection from './components/ExamSetupSection';
+import QuizEditorSection from './components/QuizEditorSection';
+import { BrainCircuit, ChevronLeft, History, Layers, TrendingUp } from 'lucide-react';
+
+// Storage failures shouldn't interrupt the quiz; the session just won't survive a reload
+const persist = (task: Promise<unknown>) => {
+  task.catch(err => console.error("Failed to persist quiz state", err));
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
   const [quizData, setQuizData] = useState<QuizData | null>(null);
-  const [pdfBase64, setPdfBase64] = useState<string | null>(null);
+  const [source, setSource] = useState<PaperSource | null>(null);
   const [userAnswers, setUserAnswers] = useState<UserAnswers>({});
+  const [questionTimes, setQuestionTimes] = useState<QuestionTimes>({});
+  const [questionHints, setQuestionHints] = useState<QuestionHints>({});
+  const [timedOut, setTimedOut] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [extractionProgress, setExtractionProgress] = useState<ExtractionProgress | null>(null);
+  const [activePaper, setActivePaper] = useState<SavedPaper | null>(null);
+  const [activeAttempt, setActiveAttempt] = useState<QuizAttempt | null>(null);
+  // Where the editor goes back to: setup after a fresh scan, or wherever it was opened from
+  const [editReturnState, setEditReturnState] = useState<AppState>(AppState.SETUP);
+  // Set while a revision deck review runs through QuizSection instead of a saved attempt
+  const [reviewSession, setReviewSession] = useState<ReviewSession | null>(null);
+  // Latest attempt snapshot; QuizSection reports progress far more often than we need to re-render
+  const attemptRef = useRef<QuizAttempt | null>(null);
+  const extractionAbortRef = useRef<AbortController | null>(null);
+
+  const openAttempt = (paper: SavedPaper, attempt: QuizAttempt) => {
+    attemptRef.current = attempt;
+    setReviewSession(null);
+    setActivePaper(paper);
+    setActiveAttempt(attempt);
+    setActiveAttemptId(attempt.id);
+    setQuizData(getAttemptQuiz(paper, attempt));
+    setSource(getPaperSource(paper));
+    setUserAnswers(attempt.answers);
+    setQuestionTimes(attempt.questionTimes ?? {});
+    setQuestionHints(attempt.hints ?? {});
+    setTimedOut(!!attempt.timedOut);
+    setError(null);
+    setAppState(attempt.status === 'completed' ? AppState.RESULTS : AppState.QUIZ);
+  };
+
+  // Every new attempt goes through the setup screen to pick timing
+  const openSetup = (paper: SavedPaper) => {
+    attemptRef.current = null;
+    setReviewSession(null);
+    setActivePaper(paper);
+    setActiveAttempt(null);
+    setQuizData(paper.quizData);
+    setSource(getPaperSource(paper));
+    setError(null);
+    setAppState(AppState.SETUP);
+  };
+
+  const openEditor = (returnTo: AppState) => {
+    setEditReturnState(returnTo);
+    setAppState(AppState.EDIT);
+  };
+
+  const startNewAttempt = (paper: SavedPaper, examConfig: ExamConfig, retake?: RetakeConfig) => {
+    const now = Date.now();
+    const attempt: QuizAttempt = {
+      id: createId(),
+      paperId: paper.id,
+      status: 'in_progress',
+      examConfig,
+      retake,
+      answers: {},
+      markedForReview: [],
+      visited: [0],
+      currentIndex: 0,
+      elapsedSeconds: 0,
+      questionTimes: {},
+      hints: {},
+      startedAt: now,
+      updatedAt: now,
+    };
+    if (examConfig.mode === 'timed') attempt.deadline = now + examConfig.durationSeconds * 1000;
+    persist(saveAttempt(attempt));
+    openAttempt(paper, attempt);
+  };
+
+  // Reopen whatever was on screen before the page was reloaded
+  useEffect(() => {
+    const restoreSession = async () => {
+      const attemptId = getActiveAttemptId();
+      if (!attemptId) return;
+      try {
+        const attempt = await getAttempt(attemptId);
+        const paper = attempt ? await getPaper(attempt.paperId) : undefined;
+        if (attempt && paper) openAttempt(paper, attempt);
+        else setActiveAttemptId(null);
+      } catch (err) {
+        console.error("Failed to restore previous session", err);
+      }
+    };
+    restoreSession();
+  }, []);
 
-  const handleFileSelect = async (base64: string) => {
-    setPdfBase64(base64); // Store raw PDF for rendering diagrams
+  const handleFileSelect = async (upload: PaperSource) => {
+    setSource(upload); // Kept for rendering diagrams
     setAppState(AppState.PROCESSING);
     setError(null);
+    setExtractionProgress(null);
+    const controller = new AbortController();
+    extractionAbortRef.current = controller;
     try {
-      const data = await parsePdfToQuiz(base64);
+      const { quizData: data, warnings } = await parsePaperToQuiz(upload, setExtractionProgress, controller.signal);
       if (data && data.questions && data.questions.length > 0) {
-        setQuizData(data);
-        setAppState(AppState.QUIZ);
+        const paper: SavedPaper = {
+          id: createId(),
+          quizData: { ...data, markingScheme: data.markingScheme || detectMarkingScheme(data) },
+          pdfBase64: 'pdf' in upload ? upload.pdf : null,
+          pageImages: 'images' in upload ? upload.images : undefined,
+          extractionWarnings: warnings,
+          createdAt: Date.now(),
+        };
+        persist(savePaper(paper));
+        openSetup(paper);
+        openEditor(AppState.SETUP);
       } else {
-        throw new Error("Could not extract any questions from the PDF. Ensure it's a valid mock test.");
+        throw new Error("Could not extract any questions from the paper. Ensure it's a valid mock test.");
       }
     } catch (err: any) {
+      // Cancelling already returned us to the upload screen
+      if (isAbortError(err)) return;
       console.error(err);
-      setError(err.message || "Failed to process PDF. Please try again.");
+      setError(err.message || "Failed to process the paper. Please try again.");
       setAppState(AppState.UPLOAD);
+    } finally {
+      if (extractionAbortRef.current === controller) extractionAbortRef.current = null;
+    }
+  };
+
+  // Bundles already hold the questions, so importing skips Gemini, and the setup screen too unless there is
+  // something to warn about first (e.g. a bundle shared without answers can't be graded)
+  const handleImportBundle = async (file: File) => {
+    setError(null);
+    try {
+      const { bundle, warnings } = parseQuizBundle(await file.text());
+      const imported = bundleToPaper(bundle, warnings);
+      const quiz = imported.quizData;
+      const paper = { ...imported, quizData: { ...quiz, markingScheme: quiz.markingScheme || detectMarkingScheme(quiz) } };
+      persist(savePaper(paper));
+      if (paper.extractionWarnings?.length) {
+        openSetup(paper);
+        return;
+      }
+      // Untimed, since nobody chose a duration for this attempt
+      const examConfig: ExamConfig = {
+        ...getDefaultExamConfig(quiz.questions.length, getMarkingScheme(paper.quizData).id),
+        mode: 'untimed',
+      };
+      startNewAttempt(paper, examConfig);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || "Failed to import the quiz bundle.");
     }
   };
 
-  const handleQuizComplete = (answers: UserAnswers) => {
-    setUserAnswers(answers);
+  const handleCancelExtraction = () => {
+    extractionAbortRef.current?.abort();
+    extractionAbortRef.current = null;
+    setExtractionProgress(null);
+    setSource(null);
+    setAppState(AppState.UPLOAD);
+  };
+
+  const handleQuizProgress = (progress: AttemptProgress) => {
+    if (!attemptRef.current) return;
+    attemptRef.current = { ...attemptRef.current, ...progress, updatedAt: Date.now() };
+    persist(saveAttempt(attemptRef.current));
+  };
+
+  const handleStartExam = (examConfig: ExamConfig) => {
+    if (activePaper) startNewAttempt(activePaper, examConfig);
+  };
+
+  // Review sessions aren't saved as attempts; their results only reschedule the deck's cards
+  const handleStartReview = (session: ReviewSession) => {
+    attemptRef.current = null;
+    setReviewSession(session);
+    setActivePaper(null);
+    setActiveAttempt(null);
+    setActiveAttemptId(null);
+    setQuizData(session.quizData);
+    setSource(null);
+    setUserAnswers({});
+    setQuestionTimes({});
+    setQuestionHints({});
+    setTimedOut(false);
+    setAppState(AppState.QUIZ);
+  };
+
+  const handleQuizComplete = (submission: QuizSubmission) => {
+    const results = quizData ? scoreQuiz(quizData, submission.answers) : null;
+    if (reviewSession && results) {
+      persist(recordReviewResults(reviewSession, results));
+    } else if (activePaper && quizData && results) {
+      persist(collectMistakes(activePaper.id, quizData, results));
+    }
+    if (attemptRef.current) {
+      const now = Date.now();
+      attemptRef.current = {
+        ...attemptRef.current,
+        answers: submission.answers,
+        questionTimes: submission.questionTimes,
+        hints: submission.hints,
+        timedOut: submission.timedOut,
+        status: 'completed',
+        updatedAt: now,
+        completedAt: now,
+      };
+      persist(saveAttempt(attemptRef.current));
+      // The report needs the final marked-for-review list to offer a retake of those questions
+      setActiveAttempt(attemptRef.current);
+    }
+    setUserAnswers(submission.answers);
+    setQuestionTimes(submission.questionTimes);
+    setQuestionHints(submission.hints);
+    setTimedOut(submission.timedOut);
     setAppState(AppState.RESULTS);
   };
 
+  // Changes always apply to the whole paper; a retake's questions are then picked out of it again
+  const updateQuizData = (update: (paperQuiz: QuizData) => QuizData) => {
+    const base = activePaper?.quizData ?? quizData;
+    if (!base) return;
+    const updated = update(base);
+    setQuizData(activeAttempt?.retake ? applyRetake(updated, activeAttempt.retake) : updated);
+    if (activePaper) {
+      const paper = { ...activePaper, quizData: updated };
+      setActivePaper(paper);
+      persist(savePaper(paper));
+    }
+  };
+
+  const handleMarkingSchemeChange = (markingScheme: MarkingScheme) => {
+    updateQuizData(paperQuiz => ({ ...paperQuiz, markingScheme }));
+  };
+
+  const handleSectionsChange = (sections: ExamSection[]) => {
+    updateQuizData(paperQuiz => ({ ...paperQuiz, sections }));
+  };
+
+  // Edits keep question ids, so saved attempts of this paper are simply re-graded against the corrected data
+  const handleSaveEdits = (updated: QuizData) => {
+    updateQuizData(() => updated);
+    setAppState(editReturnState);
+  };
+
+  // Review sessions have no paper to retake
+  const retakeChoices = appState === AppState.RESULTS && activePaper && quizData
+    ? getRetakeChoices(activePaper.quizData, scoreQuiz(quizData, userAnswers), activeAttempt?.markedForReview ?? [])
+    : null;
+
+  // Retakes skip the setup screen: same timing mode as last time, with the duration fitted to the question count
+  const handleRetake = (options: RetakeOptions) => {
+    const questionIds = retakeChoices?.[options.mode] ?? [];
+    if (!activePaper || questionIds.length === 0) return;
+    const isPlain = options.mode === 'ALL' && !options.shuffleQuestions && !options.shuffleOptions;
+    startNewAttempt(
+      activePaper,
+      getRetakeExamConfig(activeAttempt?.examConfig, activePaper.quizData, questionIds.length),
+      isPlain ? undefined : createRetake(activePaper.quizData, questionIds, options)
+    );
+  };
+
   const handleRetry = () => {
     setAppState(AppState.UPLOAD);
     setQuizData(null);
-    setPdfBase64(null);
+    setSource(null);
     setUserAnswers({});
+    setQuestionTimes({});
+    setQuestionHints({});
+    setTimedOut(false);
     setError(null);
+    setActivePaper(null);
+    setActiveAttempt(null);
+    setActiveAttemptId(null);
+    setReviewSession(null);
+    attemptRef.current = null;
+  };
+
+  const handleOpenHistory = () => {
+    setAppState(AppState.HISTORY);
   };
 
   const isQuizMode = appState === AppState.QUIZ;
@@ -65,7 +333,7 @@ const App: React.FC = () => {
         <nav className="relative z-50 w-full backdrop-blur-sm border-b border-white/5 bg-[#020617]/50">
           <div className="max-w-7xl mx-auto px-6 h-20 flex items-center justify-between">
             <div className="flex items-center gap-3 cursor-pointer group" onClick={handleRetry}>
-              {appState === AppState.RESULTS && (
+              {(appState === AppState.RESULTS || appState === AppState.HISTORY || appState === AppState.DASHBOARD || appState === AppState.REVISION) && (
                 <div className="mr-2 p-2 rounded-full hover:bg-white/5 transition-colors">
                   <ChevronLeft className="w-5 h-5 text-slate-400 group-hover:text-white" />
                 </div>
@@ -79,6 +347,24 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-4">
+               {appState !== AppState.REVISION && appState !== AppState.PROCESSING && (
+                 <button onClick={() => setAppState(AppState.REVISION)} className="flex items-center gap-1.5 text-sm font-medium text-slate-400 hover:text-white transition-colors">
+                   <Layers className="w-4 h-4" />
+                   Revise
+                 </button>
+               )}
+               {appState !== AppState.DASHBOARD && appState !== AppState.PROCESSING && (
+                 <button onClick={() => setAppState(AppState.DASHBOARD)} className="flex items-center gap-1.5 text-sm font-medium text-slate-400 hover:text-white transition-colors">
+                   <TrendingUp className="w-4 h-4" />
+                   Progress
+                 </button>
+               )}
+               {appState !== AppState.HISTORY && appState !== AppState.PROCESSING && (
+                 <button onClick={handleOpenHistory} className="flex items-center gap-1.5 text-sm font-medium text-slate-400 hover:text-white transition-colors">
+                   <History className="w-4 h-4" />
+                   History
+                 </button>
+               )}
                {appState === AppState.RESULTS && (
                  <button onClick={handleRetry} className="text-sm font-medium text-slate-400 hover:text-white transition-colors">
                    Scan New
@@ -99,6 +385,7 @@ const App: React.FC = () => {
           <div className="flex-1 flex flex-col justify-center py-10">
             <UploadSection 
               onFileSelect={handleFileSelect} 
+              onImport={handleImportBundle}
               isProcessing={false} 
               error={error} 
             />
@@ -110,18 +397,51 @@ const App: React.FC = () => {
               <UploadSection 
                 onFileSelect={() => {}} 
                 isProcessing={true}
+                progress={extractionProgress}
+                onCancel={handleCancelExtraction}
                 error={null} 
               />
            </div>
         )}
 
+        {appState === AppState.EDIT && quizData && (
+          <QuizEditorSection
+            quizData={activePaper?.quizData ?? quizData}
+            source={source}
+            warnings={activePaper?.extractionWarnings ?? []}
+            onSave={handleSaveEdits}
+            onCancel={() => setAppState(editReturnState)}
+          />
+        )}
+
+        {appState === AppState.SETUP && quizData && (
+          <div className="flex-1 flex flex-col justify-center py-10">
+            <ExamSetupSection
+              quizData={quizData}
+              paper={activePaper ?? undefined}
+              warnings={activePaper?.extractionWarnings ?? []}
+              onMarkingSchemeChange={handleMarkingSchemeChange}
+              onSectionsChange={handleSectionsChange}
+              onStart={handleStartExam}
+              onEdit={() => openEditor(AppState.SETUP)}
+            />
+          </div>
+        )}
+
         {appState === AppState.QUIZ && (
           quizData ? (
              <QuizSection 
+               key={reviewSession?.id ?? activeAttempt?.id}
                quizData={quizData} 
-               pdfBase64={pdfBase64}
+               source={source}
+               diagramImages={reviewSession?.diagramImages ?? activePaper?.diagramImages}
                onComplete={handleQuizComplete}
                onCancel={handleRetry}
+               onMarkingSchemeChange={handleMarkingSchemeChange}
+               examConfig={activeAttempt?.examConfig}
+               initialProgress={activeAttempt ?? undefined}
+               deadline={activeAttempt?.deadline}
+               onProgress={handleQuizProgress}
              />
           ) : (
             // Fallback if quizData is null but state is QUIZ (should not happen, but prevents black screen)
@@ -135,7 +455,37 @@ const App: React.FC = () => {
           <ResultSection 
             quizData={quizData} 
             userAnswers={userAnswers} 
-            onRetry={handleRetry} 
+            questionTimes={questionTimes}
+            hints={questionHints}
+            source={source}
+            diagramImages={reviewSession?.diagramImages ?? activePaper?.diagramImages}
+            timedOut={timedOut}
+            onRetry={handleRetry}
+            onEdit={reviewSession ? undefined : () => openEditor(AppState.RESULTS)}
+            retakeChoices={retakeChoices ?? undefined}
+            onRetake={handleRetake}
+          />
+        )}
+
+        {appState === AppState.HISTORY && (
+          <HistorySection
+            onOpenAttempt={openAttempt}
+            onRetake={openSetup}
+            onBack={handleRetry}
+          />
+        )}
+
+        {appState === AppState.REVISION && (
+          <RevisionDeckSection
+            onStartReview={handleStartReview}
+            onBack={handleRetry}
+          />
+        )}
+
+        {appState === AppState.DASHBOARD && (
+          <ProgressDashboard
+            onOpenAttempt={openAttempt}
+            onBack={handleRetry}
           />
         )}
 
@@ -146,7 +496,7 @@ const App: React.FC = () => {
         <footer className="relative z-10 w-full py-8 text-center">
           <div className="flex flex-col items-center gap-2">
             <p className="font-mono text-xs text-slate-500 uppercase tracking-widest">
-              Powered by <span className="text-emerald-400/80 font-bold">gemini-3.0-preview</span>
+              Powered by <span className="text-emerald-400/80 font-bold">{getAIProvider().name}</span>
             </p>
             <p className="text-[10px] text-slate-700">Rankify AI © 2025</p>
           </div>
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { CacheEntry, CacheKind } from '../types';
+import { clearCache, deleteCacheEntry, listCacheEntries } from '../services/storageService';
+import { formatBytes } from '../services/cacheService';
+import { Database, ChevronDown, ChevronUp, Trash2, FileText, Sparkles, Lightbulb } from 'lucide-react';
+
+const KIND_LABELS: Record<CacheKind, string> = {
+  extraction: 'Scanned papers',
+  solution: 'Tutor replies',
+  hint: 'Hints',
+};
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+// Shows what the AI cache holds and lets it be cleared, e.g. to force a fresh scan of a paper
+const CachePanel: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listCacheEntries()
+      .then(setEntries)
+      .catch(err => {
+        console.error("Failed to load cache", err);
+        setError("Could not read the cache.");
+      });
+  }, []);
+
+  const handleClear = async (kind: CacheKind) => {
+    if (!confirm(`Clear all cached ${KIND_LABELS[kind].toLowerCase()}? They will be fetched from the AI again when needed.`)) return;
+    try {
+      await clearCache(kind);
+      setEntries(prev => prev.filter(e => e.kind !== kind));
+    } catch (err) {
+      console.error("Failed to clear cache", err);
+    }
+  };
+
+  const handleDelete = async (key: string) => {
+    try {
+      await deleteCacheEntry(key);
+      setEntries(prev => prev.filter(e => e.key !== key));
+    } catch (err) {
+      console.error("Failed to delete cache entry", err);
+    }
+  };
+
+  const totalBytes = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+  const kinds: CacheKind[] = ['extraction', 'solution', 'hint'];
+
+  return (
+    <div className="mt-10 rounded-3xl border border-white/5 bg-[#0B1120] p-6 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-1">
+            <Database className="w-3.5 h-3.5" />
+            AI Cache
+          </div>
+          <p className="text-sm text-slate-300">
+            {error ?? `${kinds.map(kind => `${entries.filter(e => e.kind === kind).length} ${KIND_LABELS[kind].toLowerCase()}`).join(' · ')} · ${formatBytes(totalBytes)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {kinds.map(kind => (
+            <button
+              key={kind}
+              onClick={() => handleClear(kind)}
+              disabled={!entries.some(e => e.kind === kind)}
+              className="px-3 py-1.5 rounded-lg border border-slate-800 text-xs text-slate-400 hover:text-rose-400 hover:border-rose-500/30 transition-colors disabled:opacity-40 disabled:hover:text-slate-400 disabled:hover:border-slate-800"
+            >
+              Clear {KIND_LABELS[kind].toLowerCase()}
+            </button>
+          ))}
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            disabled={entries.length === 0}
+            className="p-1.5 rounded-lg text-slate-500 hover:text-white transition-colors disabled:opacity-40"
+            title={isOpen ? 'Hide entries' : 'Show entries'}
+          >
+            {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && entries.length > 0 && (
+        <div className="mt-4 divide-y divide-slate-800 border-t border-slate-800">
+          {entries.map(entry => (
+            <div key={entry.key} className="py-2.5 flex items-center gap-3 text-sm">
+              {entry.kind === 'extraction' && <FileText className="w-4 h-4 text-emerald-400 flex-shrink-0" />}
+              {entry.kind === 'solution' && <Sparkles className="w-4 h-4 text-blue-400 flex-shrink-0" />}
+              {entry.kind === 'hint' && <Lightbulb className="w-4 h-4 text-amber-400 flex-shrink-0" />}
+              <span className="flex-1 min-w-0 truncate text-slate-300">{entry.label || 'Untitled'}</span>
+              <span className="hidden sm:block text-xs font-mono text-slate-500 flex-shrink-0">
+                {formatBytes(entry.sizeBytes)} · {formatDate(entry.createdAt)}
+              </span>
+              <button
+                onClick={() => handleDelete(entry.key)}
+                className="p-1 rounded-lg text-slate-600 hover:text-rose-400 transition-colors flex-shrink-0"
+                title="Remove from cache"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PaperDocument } from '../services/pdfService';
+import { Loader2 } from 'lucide-react';
+
+interface DiagramRegionEditorProps {
+  paperDoc: PaperDocument;
+  pageNumber: number;
+  boundingBox?: number[]; // [ymin, xmin, ymax, xmax] on the 0-1000 scale
+  onChange: (boundingBox: number[]) => void;
+}
+
+// Drags smaller than this (0-1000 scale) are treated as stray clicks
+const MIN_DRAG_SIZE = 10;
+
+const toScale = (value: number, size: number) => Math.round(Math.min(1000, Math.max(0, (value / size) * 1000)));
+
+const DiagramRegionEditor: React.FC<DiagramRegionEditorProps> = ({ paperDoc, pageNumber, boundingBox, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isRendering, setIsRendering] = useState(true);
+  const [dragStart, setDragStart] = useState<[number, number] | null>(null);
+  const [draft, setDraft] = useState<number[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const renderPage = async () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      setIsRendering(true);
+      try {
+        await paperDoc.renderPage(pageNumber, canvas, 1.5);
+      } catch (err) {
+        console.error("Render error", err);
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    };
+    renderPage();
+    return () => { cancelled = true; };
+  }, [paperDoc, pageNumber]);
+
+  // Pointer position as [y, x] on the 0-1000 page scale
+  const getPoint = (e: React.PointerEvent): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [toScale(e.clientY - rect.top, rect.height), toScale(e.clientX - rect.left, rect.width)];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = getPoint(e);
+    setDragStart(point);
+    setDraft([point[0], point[1], point[0], point[1]]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const [y, x] = getPoint(e);
+    setDraft([Math.min(dragStart[0], y), Math.min(dragStart[1], x), Math.max(dragStart[0], y), Math.max(dragStart[1], x)]);
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft[2] - draft[0] >= MIN_DRAG_SIZE && draft[3] - draft[1] >= MIN_DRAG_SIZE) onChange(draft);
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const box = draft ?? boundingBox;
+  const hasBox = !!box && box.some(v => v !== 0);
+
+  return (
+    <div className="relative rounded-xl overflow-hidden border border-slate-800 bg-white">
+      <canvas ref={canvasRef} className="block w-full h-auto" />
+      <div
+        className="absolute inset-0 cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {hasBox && box && (
+          <div
+            className="absolute border-2 border-emerald-500 bg-emerald-500/10 pointer-events-none"
+            style={{
+              top: `${box[0] / 10}%`,
+              left: `${box[1] / 10}%`,
+              height: `${(box[2] - box[0]) / 10}%`,
+              width: `${(box[3] - box[1]) / 10}%`,
+            }}
+          />
+        )}
+      </div>
+      {isRendering && (
+        <div className="absolute inset-0 flex items-center justify-center bg-slate-950/60">
+          <Loader2 className="w-5 h-5 text-emerald-400 animate-spin" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagramRegionEditor;
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { ExamConfig, ExamSection, ExtractionWarning, MarkingScheme, QuizData, SavedPaper } from '../types';
+import { getMarkingScheme } from '../services/scoringService';
+import { WARNING_THRESHOLD_OPTIONS, getDefaultExamConfig } from '../services/examService';
+import { getSectionGroups } from '../services/sectionService';
+import MarkingSchemePicker from './MarkingSchemePicker';
+import ExtractionWarningsPanel from './ExtractionWarningsPanel';
+import QuizExportButton from './QuizExportButton';
+import { Timer, Infinity as InfinityIcon, Lightbulb, BellRing, ArrowRight, FileText, PenLine } from 'lucide-react';
+
+interface ExamSetupSectionProps {
+  quizData: QuizData;
+  paper?: SavedPaper; // Enables export once the paper has been saved
+  warnings: ExtractionWarning[];
+  onMarkingSchemeChange: (scheme: MarkingScheme) => void;
+  onSectionsChange: (sections: ExamSection[]) => void;
+  onStart: (config: ExamConfig) => void;
+  onEdit: () => void;
+}
+
+const MODES: { mode: ExamConfig['mode']; icon: typeof Timer; label: string; description: string }[] = [
+  { mode: 'timed', icon: Timer, label: 'Timed Exam', description: 'Countdown with auto-submit' },
+  { mode: 'untimed', icon: InfinityIcon, label: 'Untimed', description: 'Stopwatch only' },
+  { mode: 'practice', icon: Lightbulb, label: 'Practice', description: 'Untimed, with hints' },
+];
+
+const ExamSetupSection: React.FC<ExamSetupSectionProps> = ({
+  quizData, paper, warnings, onMarkingSchemeChange, onSectionsChange, onStart, onEdit
+}) => {
+  const scheme = getMarkingScheme(quizData);
+  const [config, setConfig] = useState<ExamConfig>(() => getDefaultExamConfig(quizData.questions.length, scheme.id));
+
+  const hours = Math.floor(config.durationSeconds / 3600);
+  const minutes = Math.floor((config.durationSeconds % 3600) / 60);
+
+  const handleDurationChange = (nextHours: number, nextMinutes: number) => {
+    const durationSeconds = Math.max(60, (nextHours * 60 + nextMinutes) * 60);
+    setConfig(prev => ({ ...prev, durationSeconds }));
+  };
+
+  const handleSchemeChange = (next: MarkingScheme) => {
+    onMarkingSchemeChange(next);
+    // Keep the suggested duration in step with the exam pattern
+    setConfig(prev => ({ ...prev, durationSeconds: getDefaultExamConfig(quizData.questions.length, next.id).durationSeconds }));
+  };
+
+  const updateSection = (id: string, changes: Partial<ExamSection>) => {
+    onSectionsChange((quizData.sections ?? []).map(section => (section.id === id ? { ...section, ...changes } : section)));
+  };
+
+  // A limit of every question in the section is the same as no limit
+  const handleAttemptLimitChange = (id: string, value: number, questionCount: number) => {
+    updateSection(id, { attemptLimit: value >= 1 && value < questionCount ? Math.round(value) : undefined });
+  };
+
+  const sectionGroups = getSectionGroups(quizData).filter(group => group.section);
+
+  const toggleThreshold = (minutesLeft: number) => {
+    const secs = minutesLeft * 60;
+    setConfig(prev => ({
+      ...prev,
+      warningThresholds: prev.warningThresholds.includes(secs)
+        ? prev.warningThresholds.filter(t => t !== secs)
+        : [...prev.warningThresholds, secs].sort((a, b) => b - a),
+    }));
+  };
+
+  const isTimed = config.mode === 'timed';
+
+  return (
+    <div className="w-full px-6 flex flex-col items-center animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="w-full max-w-xl rounded-[1.8rem] bg-[#0B1120] border border-white/10 shadow-2xl shadow-black/50 p-8 md:p-10">
+        <div className="flex items-center gap-2 text-emerald-400 font-mono text-xs uppercase tracking-widest mb-2">
+          <FileText className="w-4 h-4" />
+          <span>Exam Setup</span>
+        </div>
+        <h2 className="text-2xl md:text-3xl font-bold text-white tracking-tight mb-1">{quizData.title}</h2>
+        <div className="flex items-center justify-between gap-4 mb-8">
+          <p className="text-sm text-slate-500 font-mono">{quizData.questions.length} questions</p>
+          <div className="flex items-center gap-3">
+            <button onClick={onEdit} className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-white transition-colors">
+              <PenLine className="w-3.5 h-3.5" />
+              Review & Edit
+            </button>
+            {paper && <QuizExportButton paper={paper} />}
+          </div>
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="mb-8">
+            <ExtractionWarningsPanel warnings={warnings} />
+          </div>
+        )}
+
+        {/* Marking */}
+        <div className="mb-8">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Marking Scheme</p>
+          <div className="text-sm text-slate-300">
+            <MarkingSchemePicker scheme={scheme} onChange={handleSchemeChange} />
+          </div>
+        </div>
+
+        {sectionGroups.length > 0 && (
+          <div className="mb-8">
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Sections</p>
+            <div className="space-y-2">
+              {sectionGroups.map(({ section, questionIndices }) => {
+                if (!section) return null;
+                const count = questionIndices.length;
+                return (
+                  <div key={section.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-xl border border-slate-800">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-white truncate">{section.name}</p>
+                      <div className="text-xs text-slate-500 font-mono flex items-center gap-2">
+                        {count} questions
+                        {section.markingScheme && (
+                          <MarkingSchemePicker scheme={section.markingScheme} onChange={markingScheme => updateSection(section.id, { markingScheme })} />
+                        )}
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 font-mono">
+                      Attempt any
+                      <input
+                        type="number"
+                        min={1}
+                        max={count}
+                        value={section.attemptLimit ?? count}
+                        onChange={e => handleAttemptLimitChange(section.id, Number(e.target.value) || 0, count)}
+                        className="w-14 px-2 py-1 rounded-lg bg-slate-900 border border-slate-700 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                      />
+                      of {count}
+                    </label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Mode */}
+        <div className="mb-8">
+          <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Mode</p>
+          <div className="grid grid-cols-3 gap-3">
+            {MODES.map(({ mode, icon: Icon, label, description }) => {
+              const isActive = config.mode === mode;
+              return (
+                <button
+                  key={mode}
+                  onClick={() => setConfig(prev => ({ ...prev, mode }))}
+                  className={`p-4 rounded-xl border text-left transition-colors ${isActive ? 'border-emerald-500/50 bg-emerald-500/10' : 'border-slate-800 hover:border-slate-700'}`}
+                >
+                  <Icon className={`w-5 h-5 mb-2 ${isActive ? 'text-emerald-400' : 'text-slate-500'}`} />
+                  <p className="text-sm font-semibold text-white">{label}</p>
+                  <p className="text-xs text-slate-500">{description}</p>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {config.mode === 'practice' && (
+          <label className="mb-8 flex items-start gap-3 px-4 py-3 rounded-xl border border-slate-800 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!config.instantFeedback}
+              onChange={e => setConfig(prev => ({ ...prev, instantFeedback: e.target.checked }))}
+              className="accent-emerald-500 mt-1"
+            />
+            <span>
+              <span className="block text-sm font-semibold text-white">Instant feedback</span>
+              <span className="block text-xs text-slate-500">Check each answer as you confirm it, with the explanation and a running score</span>
+            </span>
+          </label>
+        )}
+
+        {isTimed && (
+          <>
+            {/* Duration */}
+            <div className="mb-8">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Duration</p>
+              <div className="flex items-center gap-3 font-mono">
+                <input
+                  type="number"
+                  min={0}
+                  value={hours}
+                  onChange={e => handleDurationChange(Number(e.target.value) || 0, minutes)}
+                  className="w-20 px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                />
+                <span className="text-slate-500 text-sm">h</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={59}
+                  value={minutes}
+                  onChange={e => handleDurationChange(hours, Math.min(59, Number(e.target.value) || 0))}
+                  className="w-20 px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                />
+                <span className="text-slate-500 text-sm">min</span>
+              </div>
+            </div>
+
+            {/* Warnings */}
+            <div className="mb-8">
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+                <BellRing className="w-3.5 h-3.5" />
+                Warn me at
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {WARNING_THRESHOLD_OPTIONS.map(m => {
+                  const isActive = config.warningThresholds.includes(m * 60);
+                  return (
+                    <button
+                      key={m}
+                      onClick={() => toggleThreshold(m)}
+                      className={`px-3 py-1.5 rounded-full border text-xs font-mono transition-colors ${isActive ? 'border-amber-500/50 bg-amber-500/10 text-amber-300' : 'border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                    >
+                      {m} min left
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+
+        <button
+          onClick={() => onStart(config)}
+          className="w-full py-3 rounded-xl bg-white text-slate-950 font-semibold text-sm hover:bg-emerald-400 hover:text-emerald-950 transition-all flex items-center justify-center gap-2 group/btn shadow-lg shadow-white/5"
+        >
+          {config.mode === 'practice' ? 'Start Practice' : 'Start Test'}
+          <ArrowRight className="w-4 h-4 group-hover/btn:translate-x-1 transition-transform" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSetupSection;
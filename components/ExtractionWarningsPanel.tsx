@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { ExtractionWarning } from '../types';
+import { AlertTriangle, ChevronDown, Info, XCircle } from 'lucide-react';
+
+interface ExtractionWarningsPanelProps {
+  warnings: ExtractionWarning[];
+}
+
+const SEVERITY_STYLES: Record<ExtractionWarning['severity'], { icon: React.ReactNode; text: string }> = {
+  error: { icon: <XCircle className="w-3.5 h-3.5 text-rose-400 flex-shrink-0" />, text: 'text-rose-300' },
+  warning: { icon: <AlertTriangle className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" />, text: 'text-amber-200' },
+  info: { icon: <Info className="w-3.5 h-3.5 text-slate-500 flex-shrink-0" />, text: 'text-slate-400' },
+};
+
+const SEVERITY_ORDER: ExtractionWarning['severity'][] = ['error', 'warning', 'info'];
+
+const ExtractionWarningsPanel: React.FC<ExtractionWarningsPanelProps> = ({ warnings }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  if (warnings.length === 0) return null;
+
+  const count = (severity: ExtractionWarning['severity']) => warnings.filter(w => w.severity === severity).length;
+  const summary = [
+    count('error') > 0 && `${count('error')} dropped`,
+    count('warning') > 0 && `${count('warning')} need a look`,
+    count('info') > 0 && `${count('info')} auto-fixed`,
+  ].filter(Boolean).join(' · ');
+
+  const sorted = [...warnings].sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || (a.questionId ?? 0) - (b.questionId ?? 0)
+  );
+
+  return (
+    <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left"
+      >
+        <span className="flex items-center gap-2 text-sm font-semibold text-amber-300">
+          <AlertTriangle className="w-4 h-4" />
+          Extraction issues
+          <span className="text-xs font-mono font-normal text-amber-400/70">{summary}</span>
+        </span>
+        <ChevronDown className={`w-4 h-4 text-amber-400/70 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isExpanded && (
+        <ul className="max-h-60 overflow-y-auto border-t border-amber-500/10 px-4 py-3 space-y-2 text-xs custom-scrollbar">
+          {sorted.map((warning, index) => (
+            <li key={index} className="flex items-start gap-2">
+              {SEVERITY_STYLES[warning.severity].icon}
+              <span className={SEVERITY_STYLES[warning.severity].text}>
+                {warning.questionId !== undefined && <span className="font-mono font-bold mr-1">Q{warning.questionId}</span>}
+                {warning.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionWarningsPanel;
@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PaperSource, Question, QuestionImage } from '../types';
+import { getHint, isAbortError } from '../services/aiService';
+import { HINT_LADDER, buildTutorContext, getQuestionImage } from '../services/tutorService';
+import { Lightbulb, Loader2, AlertCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface HintLadderProps {
+  question: Question;
+  hints: string[]; // Already revealed, in ladder order
+  onReveal: (hint: string) => void;
+  source: PaperSource | null;
+  diagramImages?: Record<number, string>;
+}
+
+// Practice-mode help for one question: each press reveals the next rung of the ladder
+const HintLadder: React.FC<HintLadderProps> = ({ question, hints, onReveal, source, diagramImages }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const imageRef = useRef<Promise<QuestionImage | undefined> | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const next = HINT_LADDER[hints.length];
+
+  const handleReveal = async () => {
+    if (!next || isLoading) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setIsLoading(true);
+    try {
+      imageRef.current ??= getQuestionImage(question, source, diagramImages);
+      const image = await imageRef.current;
+      const context = { ...buildTutorContext(question, undefined), image };
+      onReveal(await getHint({ context, level: next.level, previousHints: hints }, controller.signal));
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Hint request failed", err);
+      setError(err?.message || "Could not get a hint.");
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-950/20 p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between text-xs font-bold uppercase tracking-wider text-amber-700 dark:text-amber-400">
+        <span className="flex items-center gap-2">
+          <Lightbulb className="w-4 h-4" />
+          Hints
+        </span>
+        <span className="font-mono normal-case">{hints.length}/{HINT_LADDER.length} used</span>
+      </div>
+
+      {hints.map((hint, index) => (
+        <div key={index} className="text-sm text-slate-700 dark:text-slate-300">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-amber-600 dark:text-amber-500 mb-1">
+            {index + 1} · {HINT_LADDER[index].label}
+          </p>
+          <div className="math-content">
+            <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+              {hint}
+            </ReactMarkdown>
+          </div>
+        </div>
+      ))}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-rose-600 dark:text-rose-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {next && (
+        <button
+          onClick={handleReveal}
+          disabled={isLoading}
+          className="self-start flex items-center gap-2 px-3 py-1.5 rounded-md border border-amber-400 dark:border-amber-500/40 text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/30 text-xs font-semibold transition-colors disabled:opacity-60"
+        >
+          {isLoading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Lightbulb className="w-3.5 h-3.5" />}
+          {isLoading ? 'Thinking...' : `${error ? 'Try again' : 'Show hint'}: ${next.label}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default HintLadder;
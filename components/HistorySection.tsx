@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { QuizAttempt, SavedPaper } from '../types';
+import { deletePaper, listAttempts, listPapers } from '../services/storageService';
+import { scoreQuiz } from '../services/scoringService';
+import { RETAKE_LABELS, getAttemptQuiz } from '../services/retakeService';
+import QuizExportButton from './QuizExportButton';
+import CachePanel from './CachePanel';
+import {
+  History, FileText, PlayCircle, RotateCcw, BarChart2, Trash2, Loader2, Clock, ArrowLeft
+} from 'lucide-react';
+
+interface HistorySectionProps {
+  onOpenAttempt: (paper: SavedPaper, attempt: QuizAttempt) => void;
+  onRetake: (paper: SavedPaper) => void;
+  onBack: () => void;
+}
+
+interface PaperHistory {
+  paper: SavedPaper;
+  attempts: QuizAttempt[];
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatDuration = (secs: number) => {
+  const h = Math.floor(secs / 3600);
+  const m = Math.floor((secs % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${secs % 60}s`;
+};
+
+const HistorySection: React.FC<HistorySectionProps> = ({ onOpenAttempt, onRetake, onBack }) => {
+  const [history, setHistory] = useState<PaperHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    setIsLoading(true);
+    try {
+      const papers = await listPapers();
+      const withAttempts = await Promise.all(
+        papers.map(async paper => ({ paper, attempts: await listAttempts(paper.id) }))
+      );
+      setHistory(withAttempts);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load history", err);
+      setError("Could not load saved papers from this browser.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const handleDelete = async (paperId: string) => {
+    if (!confirm("Delete this paper and all of its attempts?")) return;
+    try {
+      await deletePaper(paperId);
+      setHistory(prev => prev.filter(h => h.paper.id !== paperId));
+    } catch (err) {
+      console.error("Failed to delete paper", err);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6 py-8 pb-32">
+      <div className="mb-10 flex flex-col md:flex-row md:items-end justify-between gap-6 animate-in slide-in-from-bottom-4 duration-500 fade-in">
+        <div>
+          <div className="flex items-center gap-2 text-emerald-400 font-mono text-xs uppercase tracking-widest mb-2">
+            <History className="w-4 h-4" />
+            <span>Attempt History</span>
+          </div>
+          <h2 className="text-3xl md:text-4xl font-bold text-white tracking-tight">Your Papers</h2>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Scan New
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-2 text-slate-400 py-20">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading history...
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">{error}</div>
+      )}
+
+      {!isLoading && !error && history.length === 0 && (
+        <div className="flex flex-col items-center justify-center gap-3 text-slate-500 py-20">
+          <FileText className="w-10 h-10 opacity-50" />
+          <p className="text-sm">No saved papers yet. Scan a mock test to get started.</p>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {history.map(({ paper, attempts }) => (
+          <div key={paper.id} className="rounded-3xl border border-white/5 bg-[#0B1120] p-6 shadow-xl">
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-4">
+              <div className="min-w-0">
+                <h3 className="text-lg font-bold text-white truncate">{paper.quizData.title}</h3>
+                <p className="text-xs text-slate-500 font-mono mt-1">
+                  {paper.quizData.questions.length} questions · Scanned {formatDate(paper.createdAt)}
+                  {paper.quizData.topic && ` · ${paper.quizData.topic}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onRetake(paper)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-emerald-600/10 hover:bg-emerald-600/20 border border-emerald-500/30 text-emerald-400 text-xs font-bold uppercase tracking-wide transition-all"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                  {attempts.length > 0 ? 'Retake' : 'Start'}
+                </button>
+                <QuizExportButton paper={paper} />
+                <button
+                  onClick={() => handleDelete(paper.id)}
+                  className="p-2 rounded-lg border border-slate-800 text-slate-500 hover:text-rose-400 hover:border-rose-500/30 transition-colors"
+                  title="Delete paper"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {attempts.length > 0 && (
+              <div className="divide-y divide-slate-800 border-t border-slate-800">
+                {attempts.map(attempt => {
+                  const isCompleted = attempt.status === 'completed';
+                  const score = scoreQuiz(getAttemptQuiz(paper, attempt), attempt.answers);
+                  return (
+                    <div key={attempt.id} className="py-3 flex items-center justify-between gap-4 text-sm">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full border ${isCompleted ? 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10' : 'text-amber-400 border-amber-500/30 bg-amber-500/10'}`}>
+                          {isCompleted ? 'Completed' : 'In Progress'}
+                        </span>
+                        {attempt.retake && (
+                          <span className="text-[10px] font-mono uppercase text-blue-400/80">
+                            Retake · {attempt.retake.mode === 'ALL' ? 'Shuffled' : `${RETAKE_LABELS[attempt.retake.mode]} (${attempt.retake.questionIds.length})`}
+                          </span>
+                        )}
+                        {attempt.timedOut && (
+                          <span className="text-[10px] font-mono uppercase text-amber-400/80">Timed out</span>
+                        )}
+                        <span className="text-slate-400 truncate">{formatDate(attempt.startedAt)}</span>
+                        <span className="hidden sm:flex items-center gap-1 text-slate-500 font-mono text-xs">
+                          <Clock className="w-3 h-3" />
+                          {formatDuration(attempt.elapsedSeconds)}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-4 flex-shrink-0">
+                        {isCompleted && (
+                          <span className="font-mono text-slate-200">{score.score}<span className="text-slate-500">/{score.maxMarks}</span></span>
+                        )}
+                        <button
+                          onClick={() => onOpenAttempt(paper, attempt)}
+                          className="flex items-center gap-1.5 text-xs font-semibold text-slate-300 hover:text-white transition-colors"
+                        >
+                          {isCompleted ? <BarChart2 className="w-4 h-4" /> : <PlayCircle className="w-4 h-4" />}
+                          {isCompleted ? 'View Report' : 'Resume'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {!isLoading && <CachePanel />}
+    </div>
+  );
+};
+
+export default HistorySection;
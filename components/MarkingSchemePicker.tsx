@@ -0,0 +1,66 @@
+import React from 'react';
+import { MarkingScheme, MarkingSchemeId } from '../types';
+import { MARKING_SCHEMES, formatMarks } from '../services/scoringService';
+
+interface MarkingSchemePickerProps {
+  scheme: MarkingScheme;
+  onChange: (scheme: MarkingScheme) => void;
+}
+
+const MarkingSchemePicker: React.FC<MarkingSchemePickerProps> = ({ scheme, onChange }) => {
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const id = e.target.value as MarkingSchemeId;
+    // Seed custom marks from the current scheme so switching doesn't reset them to zero
+    onChange(id === 'CUSTOM' ? { ...scheme, id, label: MARKING_SCHEMES.CUSTOM.label } : MARKING_SCHEMES[id]);
+  };
+
+  const handleCustomValue = (field: 'correct' | 'incorrect', value: string) => {
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) return;
+    onChange({ ...scheme, [field]: field === 'incorrect' ? -Math.abs(parsed) : Math.abs(parsed) });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={scheme.id}
+        onChange={handlePresetChange}
+        className="bg-transparent border border-emerald-600/30 rounded px-1.5 py-0.5 text-xs font-semibold focus:outline-none focus:ring-1 focus:ring-emerald-500"
+      >
+        {Object.values(MARKING_SCHEMES).map(s => (
+          <option key={s.id} value={s.id} className="bg-white dark:bg-slate-900">{s.label}</option>
+        ))}
+      </select>
+
+      {scheme.id === 'CUSTOM' ? (
+        <span className="flex items-center gap-1">
+          <input
+            type="number"
+            min={0}
+            value={scheme.correct}
+            onChange={e => handleCustomValue('correct', e.target.value)}
+            className="w-12 bg-transparent border border-emerald-600/30 rounded px-1 py-0.5 text-xs font-bold text-emerald-600 dark:text-emerald-400"
+            title="Marks for a correct answer"
+          />
+          /
+          <input
+            type="number"
+            min={0}
+            value={Math.abs(scheme.incorrect)}
+            onChange={e => handleCustomValue('incorrect', e.target.value)}
+            className="w-12 bg-transparent border border-rose-600/30 rounded px-1 py-0.5 text-xs font-bold text-rose-600 dark:text-rose-400"
+            title="Marks deducted for a wrong answer"
+          />
+        </span>
+      ) : (
+        <span>
+          <span className="font-bold text-emerald-600 dark:text-emerald-400">{formatMarks(scheme.correct)}</span>
+          {' / '}
+          <span className="font-bold text-rose-600 dark:text-rose-400">{formatMarks(scheme.incorrect)}</span>
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default MarkingSchemePicker;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Delete } from 'lucide-react';
+
+interface NumericKeypadProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const KEYS = ['7', '8', '9', '4', '5', '6', '1', '2', '3', '-', '0', '.'];
+
+// Only allow partially-typed numbers such as "-", "3." or "-0.25"
+const isValidPartialNumber = (value: string) => /^-?\d*\.?\d*$/.test(value);
+
+const NumericKeypad: React.FC<NumericKeypadProps> = ({ value, onChange }) => {
+  const handleKey = (key: string) => {
+    const next = key === '-' ? (value.startsWith('-') ? value.slice(1) : `-${value}`) : value + key;
+    if (isValidPartialNumber(next)) onChange(next);
+  };
+
+  const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (isValidPartialNumber(e.target.value)) onChange(e.target.value);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 max-w-xs">
+      <input
+        type="text"
+        inputMode="decimal"
+        value={value}
+        onChange={handleInput}
+        placeholder="Enter your answer"
+        className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-[#0B1120] font-mono text-lg text-slate-800 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="grid grid-cols-3 gap-2">
+        {KEYS.map(key => (
+          <button
+            key={key}
+            onClick={() => handleKey(key)}
+            className="h-11 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 font-mono font-bold text-slate-700 dark:text-slate-200 transition-colors"
+          >
+            {key}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange(value.slice(0, -1))}
+          className="col-span-2 h-11 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 flex items-center justify-center gap-2 text-sm font-semibold text-slate-600 dark:text-slate-300 transition-colors"
+        >
+          <Delete className="w-4 h-4" /> Backspace
+        </button>
+        <button
+          onClick={() => onChange('')}
+          className="h-11 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700 text-sm font-semibold text-slate-600 dark:text-slate-300 transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NumericKeypad;
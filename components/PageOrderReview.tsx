@@ -0,0 +1,87 @@
+import React from 'react';
+import { InlineImage } from '../types';
+import { ArrowLeft, ArrowRight, Trash2, ScanLine, X } from 'lucide-react';
+
+interface PageOrderReviewProps {
+  pages: InlineImage[];
+  onChange: (pages: InlineImage[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Shown before photographed pages are scanned: camera file names don't always sort into page order
+const PageOrderReview: React.FC<PageOrderReviewProps> = ({ pages, onChange, onConfirm, onCancel }) => {
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) return;
+    const next = [...pages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const iconButton = "p-1.5 rounded-lg border border-slate-800 text-slate-400 hover:text-white hover:border-slate-600 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <div className="w-full max-w-3xl rounded-3xl border border-white/5 bg-[#0B1120] p-6 shadow-xl animate-in fade-in duration-500">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-6">
+        <div>
+          <p className="text-xs font-mono text-slate-500 uppercase mb-1">Check Page Order</p>
+          <p className="text-sm text-slate-300">
+            {pages.length} page{pages.length === 1 ? '' : 's'}, sorted by file name. Move or remove pages so they read in order.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 text-xs font-semibold uppercase tracking-wide transition-colors"
+          >
+            <X className="w-3.5 h-3.5" />
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={pages.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white text-slate-950 hover:bg-emerald-400 hover:text-emerald-950 text-xs font-semibold uppercase tracking-wide transition-colors disabled:opacity-40"
+          >
+            <ScanLine className="w-3.5 h-3.5" />
+            Scan {pages.length} page{pages.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {pages.map((page, index) => (
+          <div key={index} className="rounded-xl border border-slate-800 bg-slate-900/50 p-2 flex flex-col gap-2">
+            <div className="aspect-[3/4] rounded-lg bg-white overflow-hidden flex items-center justify-center">
+              <img
+                src={`data:${page.mimeType};base64,${page.data}`}
+                alt={`Page ${index + 1}`}
+                className="max-w-full max-h-full object-contain"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-1">
+              <span className="text-xs font-mono text-slate-400">Page {index + 1}</span>
+              <div className="flex items-center gap-1">
+                <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButton} title="Move earlier">
+                  <ArrowLeft className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === pages.length - 1} className={iconButton} title="Move later">
+                  <ArrowRight className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => onChange(pages.filter((_, i) => i !== index))}
+                  className={`${iconButton} hover:text-rose-400 hover:border-rose-500/30`}
+                  title="Remove page"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PageOrderReview;
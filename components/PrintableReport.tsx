@@ -0,0 +1,187 @@
+import React from 'react';
+import { QuestionTimes, QuizData, UserAnswers } from '../types';
+import {
+  QuestionOutcome, QuizScore, formatCorrectAnswer, formatMarks, getCorrectOptionIds, getMarkingScheme, getQuestionType, parseMultiAnswer
+} from '../services/scoringService';
+import { getSectionName } from '../services/sectionService';
+import { formatDuration } from './TimeAnalysisPanel';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+// Rendered to static HTML by reportService; styles come from the stylesheet it embeds, not Tailwind
+
+export interface PrintableReportProps {
+  quizData: QuizData;
+  userAnswers: UserAnswers;
+  questionTimes: QuestionTimes;
+  results: QuizScore;
+  timedOut?: boolean;
+  diagrams: Record<number, string>;
+  detailedSolutions: Record<number, string>;
+  generatedAt: Date;
+}
+
+const OUTCOMES: { outcome: QuestionOutcome; label: string; color: string }[] = [
+  { outcome: 'correct', label: 'Correct', color: '#10b981' },
+  { outcome: 'partial', label: 'Partial', color: '#f59e0b' },
+  { outcome: 'incorrect', label: 'Incorrect', color: '#f43f5e' },
+  { outcome: 'skipped', label: 'Skipped', color: '#94a3b8' },
+];
+
+// MathML needs no fonts or stylesheet, so the exported file renders offline
+const Markdown: React.FC<{ children: string }> = ({ children }) => (
+  <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[[rehypeKatex, { output: 'mathml' }]]}>
+    {children}
+  </ReactMarkdown>
+);
+
+const DonutChart: React.FC<{ results: QuizScore }> = ({ results }) => {
+  const circumference = 2 * Math.PI * 40;
+  let offset = 0;
+  return (
+    <svg viewBox="0 0 100 100" width="140" height="140">
+      <circle cx="50" cy="50" r="40" fill="none" stroke="#e2e8f0" strokeWidth="14" />
+      {OUTCOMES.map(({ outcome, color }) => {
+        const length = results.total > 0 ? (results[outcome] / results.total) * circumference : 0;
+        const slice = (
+          <circle
+            key={outcome}
+            cx="50" cy="50" r="40"
+            fill="none"
+            stroke={color}
+            strokeWidth="14"
+            strokeDasharray={`${length} ${circumference - length}`}
+            strokeDashoffset={-offset}
+            transform="rotate(-90 50 50)"
+          />
+        );
+        offset += length;
+        return slice;
+      })}
+      <text x="50" y="54" textAnchor="middle" fontSize="14" fontWeight="700" fill="#0f172a">{results.total}</text>
+    </svg>
+  );
+};
+
+const PrintableReport: React.FC<PrintableReportProps> = ({
+  quizData, userAnswers, questionTimes, results, timedOut, diagrams, detailedSolutions, generatedAt
+}) => {
+  const scheme = getMarkingScheme(quizData);
+  const percentage = results.maxMarks > 0 ? Math.round((Math.max(0, results.score) / results.maxMarks) * 100) : 0;
+  const totalSeconds = quizData.questions.reduce((sum, q) => sum + (questionTimes[q.id] || 0), 0);
+
+  return (
+    <main>
+      <header>
+        <p className="eyebrow">Rankify Performance Report</p>
+        <h1>{quizData.title}</h1>
+        <p className="muted">
+          {quizData.topic && `${quizData.topic} · `}
+          {scheme.label} ({formatMarks(scheme.correct)} / {formatMarks(scheme.incorrect)}) · Generated {generatedAt.toLocaleString()}
+        </p>
+        {timedOut && <p className="badge">Time ran out · Auto-submitted</p>}
+      </header>
+
+      <section className="summary">
+        <DonutChart results={results} />
+        <div>
+          <p className="score">{results.score}<span>/{results.maxMarks}</span></p>
+          <p className="muted">{percentage}% · {formatDuration(totalSeconds)} spent</p>
+          <table className="breakdown">
+            <tbody>
+              {OUTCOMES.map(({ outcome, label, color }) => (
+                <tr key={outcome}>
+                  <td><span className="dot" style={{ background: color }} />{label}</td>
+                  <td>{results[outcome]}</td>
+                </tr>
+              ))}
+              {results.negativeMarks > 0 && (
+                <tr><td>Marks lost</td><td>-{results.negativeMarks}</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {results.sections.length > 0 && (
+        <table className="sections">
+          <thead>
+            <tr><th>Section</th><th>Attempted</th><th>Correct</th><th>Incorrect</th><th>Score</th></tr>
+          </thead>
+          <tbody>
+            {results.sections.map(({ section, total, attempted, correct, incorrect, score, maxMarks }) => (
+              <tr key={section?.id ?? 'general'}>
+                <td>{getSectionName(section)}</td>
+                <td>{attempted}/{section?.attemptLimit ?? total}</td>
+                <td>{correct}</td>
+                <td>{incorrect}</td>
+                <td>{score}/{maxMarks}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {quizData.questions.map((q, index) => {
+        const result = results.perQuestion[q.id];
+        const outcome = OUTCOMES.find(o => o.outcome === result.outcome)!;
+        const userAnswer = userAnswers[q.id];
+        const selectedIds = parseMultiAnswer(userAnswer);
+        const correctIds = getCorrectOptionIds(q);
+
+        return (
+          <article key={q.id} className="question" style={{ borderLeftColor: outcome.color }}>
+            <div className="question-head">
+              <strong>Question {index + 1}</strong>
+              <span style={{ color: outcome.color }}>{outcome.label} · {formatMarks(result.marks)}</span>
+              {result.uncounted && <span className="muted">Not evaluated (over the section limit)</span>}
+              {result.ungraded && <span className="muted">Not graded (no answer key)</span>}
+              {questionTimes[q.id] > 0 && <span className="muted">{formatDuration(questionTimes[q.id])}</span>}
+            </div>
+            <Markdown>{q.text}</Markdown>
+            {diagrams[q.id] && <img className="diagram" src={diagrams[q.id]} alt={`Diagram for question ${index + 1}`} />}
+
+            {getQuestionType(q) === 'NUMERICAL' ? (
+              <p>
+                Your answer: <strong>{userAnswer || '-'}</strong> · Correct answer: <strong>{formatCorrectAnswer(q)}</strong>
+              </p>
+            ) : (
+              <ul className="options">
+                {q.options.map(opt => {
+                  const isCorrect = correctIds.includes(opt.id);
+                  const isSelected = selectedIds.includes(opt.id);
+                  return (
+                    <li key={opt.id} className={isCorrect ? 'correct' : isSelected ? 'wrong' : ''}>
+                      <strong>({opt.id})</strong> <Markdown>{opt.text}</Markdown>
+                      {isSelected && <em> your answer</em>}
+                      {isCorrect && <em> correct</em>}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {q.aiAnswer && (
+              <p className="note">Graded against the printed key; the AI solved this as {q.aiAnswer}.</p>
+            )}
+            {q.explanation && (
+              <div className="solution">
+                <p className="eyebrow">Explanation</p>
+                <Markdown>{q.explanation}</Markdown>
+              </div>
+            )}
+            {detailedSolutions[q.id] && (
+              <div className="solution">
+                <p className="eyebrow">AI Tutor</p>
+                <Markdown>{detailedSolutions[q.id]}</Markdown>
+              </div>
+            )}
+          </article>
+        );
+      })}
+    </main>
+  );
+};
+
+export default PrintableReport;
@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { QuizAttempt, SavedPaper, Subject } from '../types';
+import { listAttempts, listPapers } from '../services/storageService';
+import { CompletedAttempt, buildProgressReport } from '../services/progressService';
+import { SUBJECT_LABELS } from '../services/topicService';
+import { formatDuration } from './TimeAnalysisPanel';
+import {
+  TrendingUp, ArrowLeft, Loader2, LineChart as LineIcon, Clock, Target, BookOpen, BarChart2, ArrowUpRight, ArrowDownRight
+} from 'lucide-react';
+import {
+  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, ResponsiveContainer, Tooltip as ReTooltip
+} from 'recharts';
+
+interface ProgressDashboardProps {
+  onOpenAttempt: (paper: SavedPaper, attempt: QuizAttempt) => void;
+  onBack: () => void;
+}
+
+const SUBJECT_COLORS: Record<Subject, string> = {
+  PHYSICS: '#3b82f6',
+  CHEMISTRY: '#f59e0b',
+  BIOLOGY: '#10b981',
+  MATHS: '#a855f7',
+};
+
+const CONCEPT_LIMIT = 8;
+const RECENT_LIMIT = 5;
+
+const tooltipStyle = { background: '#020617', border: '1px solid #1e293b', borderRadius: 8, fontSize: 12 };
+const axisTick = { fill: '#64748b', fontSize: 10 };
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onOpenAttempt, onBack }) => {
+  const [completed, setCompleted] = useState<CompletedAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [papers, attempts] = await Promise.all([listPapers(), listAttempts()]);
+        const papersById = new Map(papers.map(p => [p.id, p]));
+        setCompleted(attempts
+          // Retakes of only the questions answered wrong or marked would skew the trend, so only whole-paper attempts count
+          .filter(attempt => attempt.status === 'completed' && papersById.has(attempt.paperId) && (!attempt.retake || attempt.retake.mode === 'ALL'))
+          .map(attempt => ({ paper: papersById.get(attempt.paperId)!, attempt })));
+      } catch (err) {
+        console.error("Failed to load attempts", err);
+        setError("Could not load saved attempts from this browser.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const report = useMemo(() => buildProgressReport(completed), [completed]);
+
+  // Chart rows carry one key per subject so each subject gets its own line
+  const subjectRows = report.attempts.map(point => ({ label: point.label, title: point.title, ...point.subjectAccuracy }));
+  const latest = report.attempts[report.attempts.length - 1];
+  const first = report.attempts[0];
+  const trend = latest && first ? latest.percentage - first.percentage : 0;
+
+  const openAttempt = (attemptId: string) => {
+    const entry = completed.find(c => c.attempt.id === attemptId);
+    if (entry) onOpenAttempt(entry.paper, entry.attempt);
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto px-6 py-8 pb-32">
+      <div className="mb-10 flex flex-col md:flex-row md:items-end justify-between gap-6 animate-in slide-in-from-bottom-4 duration-500 fade-in">
+        <div>
+          <div className="flex items-center gap-2 text-emerald-400 font-mono text-xs uppercase tracking-widest mb-2">
+            <TrendingUp className="w-4 h-4" />
+            <span>Progress Dashboard</span>
+          </div>
+          <h2 className="text-3xl md:text-4xl font-bold text-white tracking-tight">Your Progress</h2>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Scan New
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-2 text-slate-400 py-20">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading attempts...
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">{error}</div>
+      )}
+
+      {!isLoading && !error && report.attempts.length === 0 && (
+        <div className="flex flex-col items-center justify-center gap-3 text-slate-500 py-20">
+          <LineIcon className="w-10 h-10 opacity-50" />
+          <p className="text-sm">Finish a test to start tracking your progress.</p>
+        </div>
+      )}
+
+      {!isLoading && !error && report.attempts.length > 0 && (
+        <>
+          {/* Totals */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-8 animate-in slide-in-from-bottom-6 duration-700 fade-in fill-mode-both delay-100">
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-5 shadow-xl">
+              <div className="text-xs font-mono text-slate-500 uppercase mb-2">Tests Taken</div>
+              <div className="text-3xl font-bold font-mono text-white">{report.attempts.length}</div>
+            </div>
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-5 shadow-xl">
+              <div className="text-xs font-mono text-slate-500 uppercase mb-2">Latest Score</div>
+              <div className="text-3xl font-bold font-mono text-white">{latest.percentage}%</div>
+              {report.attempts.length > 1 && (
+                <div className={`flex items-center gap-1 text-xs font-mono mt-1 ${trend >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {trend >= 0 ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
+                  {Math.abs(trend)} pts since first test
+                </div>
+              )}
+            </div>
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-5 shadow-xl">
+              <div className="text-xs font-mono text-slate-500 uppercase mb-2">Accuracy</div>
+              <div className="text-3xl font-bold font-mono text-white">{report.overallAccuracy}%</div>
+              <div className="text-xs font-mono text-slate-500 mt-1">{report.totalAttempted} answered</div>
+            </div>
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-5 shadow-xl">
+              <div className="text-xs font-mono text-slate-500 uppercase mb-2">Avg / Question</div>
+              <div className="text-3xl font-bold font-mono text-white">{formatDuration(report.averageSeconds)}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8 animate-in slide-in-from-bottom-8 duration-700 fade-in fill-mode-both delay-150">
+            {/* Score trend */}
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl">
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-4">
+                <TrendingUp className="w-4 h-4" />
+                Score Trend
+              </div>
+              <div className="h-56 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={report.attempts}
+                    className="cursor-pointer"
+                    onClick={(state) => {
+                      const point = report.attempts[Number(state.activeIndex)];
+                      if (point) openAttempt(point.attemptId);
+                    }}
+                  >
+                    <CartesianGrid stroke="#1e293b" vertical={false} />
+                    <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                    <YAxis domain={[0, 100]} tick={axisTick} axisLine={false} tickLine={false} width={32} unit="%" />
+                    <ReTooltip
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(_, payload) => payload?.[0]?.payload.title ?? ''}
+                      formatter={(value: number, name: string) => [`${value}%`, name]}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <Line
+                      type="monotone"
+                      dataKey="percentage"
+                      name="Score"
+                      stroke="#10b981"
+                      strokeWidth={2}
+                      dot={{ r: 3 }}
+                      activeDot={{ r: 5 }}
+                    />
+                    <Line type="monotone" dataKey="accuracy" name="Accuracy" stroke="#64748b" strokeDasharray="4 4" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Subject accuracy over time */}
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl">
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-4">
+                <BookOpen className="w-4 h-4" />
+                Accuracy by Subject
+              </div>
+              {report.subjects.length === 0 ? (
+                <p className="text-xs text-slate-500">None of your papers have subject tags yet. Newly scanned papers are tagged automatically.</p>
+              ) : (
+                <div className="h-56 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={subjectRows}>
+                      <CartesianGrid stroke="#1e293b" vertical={false} />
+                      <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                      <YAxis domain={[0, 100]} tick={axisTick} axisLine={false} tickLine={false} width={32} unit="%" />
+                      <ReTooltip
+                        contentStyle={tooltipStyle}
+                        labelFormatter={(_, payload) => payload?.[0]?.payload.title ?? ''}
+                        formatter={(value: number, name: string) => [`${value}%`, name]}
+                      />
+                      <Legend wrapperStyle={{ fontSize: 11 }} />
+                      {report.subjects.map(subject => (
+                        <Line
+                          key={subject}
+                          type="monotone"
+                          dataKey={subject}
+                          name={SUBJECT_LABELS[subject]}
+                          stroke={SUBJECT_COLORS[subject]}
+                          strokeWidth={2}
+                          dot={{ r: 3 }}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            {/* Time per question */}
+            <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl">
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-4">
+                <Clock className="w-4 h-4" />
+                Average Time per Question
+              </div>
+              <div className="h-56 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={report.attempts}>
+                    <XAxis dataKey="label" tick={axisTick} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                    <YAxis tick={axisTick} axisLine={false} tickLine={false} width={32} />
+                    <ReTooltip
+                      cursor={{ fill: 'rgba(255,255,255,0.03)' }}
+                      contentStyle={tooltipStyle}
+                      labelFormatter={(_, payload) => payload?.[0]?.payload.title ?? ''}
+                      formatter={(value: number) => [formatDuration(value), 'Avg time']}
+                    />
+                    <Bar
+                      dataKey="averageSeconds"
+                      fill="#3b82f6"
+                      radius={[4, 4, 0, 0]}
+                      className="cursor-pointer"
+                      onClick={(bar) => bar.payload && openAttempt(bar.payload.attemptId)}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Most missed concepts */}
+            <div className="bg-[#0B1120] border border-rose-500/10 rounded-3xl p-6 shadow-xl">
+              <div className="flex items-center gap-2 text-xs font-mono text-rose-400/80 uppercase mb-4">
+                <Target className="w-4 h-4" />
+                Most Missed Concepts
+              </div>
+              {report.concepts.filter(c => c.missed > 0).length === 0 ? (
+                <p className="text-xs text-slate-500">No missed questions in tagged chapters yet. Keep practising and weak spots will show up here.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-mono text-slate-500 uppercase">
+                      <th className="pb-3 font-normal">Chapter</th>
+                      <th className="pb-3 font-normal text-right">Missed</th>
+                      <th className="pb-3 font-normal text-right">Accuracy</th>
+                      <th className="pb-3 font-normal text-right">Recent</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {report.concepts.filter(c => c.missed > 0).slice(0, CONCEPT_LIMIT).map(concept => (
+                      <tr key={concept.key}>
+                        <td className="py-2 pr-4">
+                          <span className="text-slate-200">{concept.label}</span>
+                          {concept.subject && <span className="ml-2 text-xs text-slate-500">{SUBJECT_LABELS[concept.subject]}</span>}
+                        </td>
+                        <td className="py-2 text-right font-mono text-rose-400">{concept.missed}</td>
+                        <td className="py-2 text-right font-mono text-slate-400">{concept.accuracy}%</td>
+                        <td className={`py-2 text-right font-mono ${concept.recentAccuracy >= concept.accuracy ? 'text-emerald-400' : 'text-amber-400'}`}>
+                          {concept.attemptsSeen > 1 ? `${concept.recentAccuracy}%` : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          {/* Recent attempts */}
+          <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl animate-in slide-in-from-bottom-8 duration-700 fade-in fill-mode-both delay-200">
+            <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-4">
+              <BarChart2 className="w-4 h-4" />
+              Recent Tests
+            </div>
+            <div className="divide-y divide-slate-800">
+              {[...report.attempts].reverse().slice(0, RECENT_LIMIT).map(point => (
+                <button
+                  key={point.attemptId}
+                  onClick={() => openAttempt(point.attemptId)}
+                  className="w-full py-3 flex items-center justify-between gap-4 text-sm text-left hover:bg-white/5 rounded-lg px-2 transition-colors"
+                >
+                  <span className="min-w-0">
+                    <span className="block text-slate-200 truncate">{point.title}</span>
+                    <span className="block text-xs font-mono text-slate-500">{point.label} · {point.accuracy}% accuracy</span>
+                  </span>
+                  <span className="font-mono text-slate-200 flex-shrink-0">{point.score}<span className="text-slate-500">/{point.maxMarks}</span></span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,346 @@
+import React, { useEffect, useState } from 'react';
+import { Difficulty, ExtractionWarning, PaperSource, Question, QuestionType, QuizData, Subject } from '../types';
+import { QUESTION_TYPE_LABELS, getCorrectOptionIds, getQuestionType } from '../services/scoringService';
+import {
+  MAX_OPTIONS, addOption, fitSectionLimits, mergeWithNext, moveQuestion, removeOption, setNumericAnswer, setQuestionType, toggleCorrectOption
+} from '../services/quizEditService';
+import { PaperDocument, loadPaperDocument } from '../services/pdfService';
+import { DIFFICULTY_LABELS, SUBJECT_LABELS } from '../services/topicService';
+import DiagramRegionEditor from './DiagramRegionEditor';
+import {
+  PenLine, ArrowUp, ArrowDown, Merge, Trash2, Plus, X, Check, AlertTriangle, ImageOff
+} from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface QuizEditorSectionProps {
+  quizData: QuizData;
+  source: PaperSource | null;
+  warnings: ExtractionWarning[];
+  onSave: (quizData: QuizData) => void;
+  onCancel: () => void;
+}
+
+const EMPTY_BOX = [0, 0, 0, 0];
+
+const MathPreview: React.FC<{ text: string }> = ({ text }) => (
+  <div className="math-content text-sm text-slate-300 min-h-[1.5rem]">
+    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+      {text || '_Nothing to preview_'}
+    </ReactMarkdown>
+  </div>
+);
+
+const isQuestionComplete = (q: Question) => !!q.text.trim() && q.options.every(o => o.text.trim());
+
+const QuizEditorSection: React.FC<QuizEditorSectionProps> = ({ quizData, source, warnings, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<QuizData>(quizData);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [paperDoc, setPaperDoc] = useState<PaperDocument | null>(null);
+
+  useEffect(() => {
+    if (!source) return;
+    let doc: PaperDocument | null = null;
+    loadPaperDocument(source)
+      .then(loaded => { doc = loaded; setPaperDoc(loaded); })
+      .catch(error => console.error("Error loading paper", error));
+    return () => { doc?.destroy(); };
+  }, [source]);
+
+  const questions = draft.questions;
+  const index = Math.min(selectedIndex, questions.length - 1);
+  const question = questions[index];
+  const questionWarnings = question ? warnings.filter(w => w.questionId === question.id) : [];
+  const canSave = questions.length > 0 && questions.every(isQuestionComplete);
+
+  const setQuestions = (next: Question[]) => setDraft(prev => ({ ...prev, questions: next }));
+
+  const updateQuestion = (update: (q: Question) => Question) => {
+    setQuestions(questions.map((q, i) => (i === index ? update(q) : q)));
+  };
+
+  const handleMove = (offset: number) => {
+    const next = moveQuestion(questions, index, offset);
+    if (next !== questions) {
+      setQuestions(next);
+      setSelectedIndex(index + offset);
+    }
+  };
+
+  const handleDelete = () => {
+    setQuestions(questions.filter((_, i) => i !== index));
+    setSelectedIndex(Math.max(0, index - 1));
+  };
+
+  const handleOptionText = (optionId: string, text: string) => {
+    updateQuestion(q => ({ ...q, options: q.options.map(o => (o.id === optionId ? { ...o, text } : o)) }));
+  };
+
+  const handleNumericAnswer = (value: string) => {
+    const parsed = parseFloat(value);
+    updateQuestion(q => setNumericAnswer(q, Number.isFinite(parsed) ? parsed : undefined));
+  };
+
+  const toolbarButton = "p-2 rounded-lg border border-slate-800 text-slate-400 hover:text-white hover:border-slate-600 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+  const inputClass = "w-full px-3 py-2 rounded-lg bg-slate-900 border border-slate-700 text-sm text-white focus:outline-none focus:ring-1 focus:ring-emerald-500";
+
+  return (
+    <div className="w-full px-6 py-8 pb-32">
+      {/* Header */}
+      <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-6 animate-in slide-in-from-bottom-4 duration-500 fade-in">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 text-emerald-400 font-mono text-xs uppercase tracking-widest mb-2">
+            <PenLine className="w-4 h-4" />
+            <span>Review Questions</span>
+          </div>
+          <input
+            value={draft.title}
+            onChange={e => setDraft(prev => ({ ...prev, title: e.target.value }))}
+            className="w-full bg-transparent text-2xl md:text-3xl font-bold text-white tracking-tight focus:outline-none border-b border-transparent focus:border-slate-700"
+          />
+          <p className="text-sm text-slate-500 font-mono mt-1">{questions.length} questions</p>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          <button onClick={onCancel} className="px-4 py-2.5 rounded-xl border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 text-sm font-medium transition-colors">
+            Discard Changes
+          </button>
+          <button
+            onClick={() => onSave(fitSectionLimits({ ...draft, title: draft.title.trim() || quizData.title }))}
+            disabled={!canSave}
+            title={canSave ? undefined : "Every question and option needs some text"}
+            className="px-5 py-2.5 rounded-xl bg-white text-slate-950 font-semibold text-sm hover:bg-emerald-400 hover:text-emerald-950 transition-all flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Check className="w-4 h-4" />
+            Save & Continue
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[280px_1fr] gap-6">
+        {/* Question list */}
+        <div className="rounded-2xl border border-white/5 bg-[#0B1120] p-3 lg:max-h-[calc(100vh-16rem)] overflow-y-auto custom-scrollbar">
+          {questions.map((q, i) => {
+            const hasWarning = warnings.some(w => w.questionId === q.id && w.severity !== 'info');
+            return (
+              <button
+                key={q.id}
+                onClick={() => setSelectedIndex(i)}
+                className={`w-full text-left px-3 py-2 rounded-lg flex items-start gap-2 text-xs transition-colors ${i === index ? 'bg-emerald-500/10 text-emerald-200' : 'text-slate-400 hover:bg-white/5'}`}
+              >
+                <span className="font-mono text-slate-500 flex-shrink-0">#{i + 1}</span>
+                <span className={`line-clamp-2 flex-1 ${isQuestionComplete(q) ? '' : 'text-rose-400'}`}>{q.text || 'Empty question'}</span>
+                {hasWarning && <AlertTriangle className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" />}
+              </button>
+            );
+          })}
+          {questions.length === 0 && (
+            <p className="p-4 text-xs text-slate-500 text-center">All questions were deleted. Discard changes to start over.</p>
+          )}
+        </div>
+
+        {/* Question editor */}
+        {question && (
+          <div className="rounded-2xl border border-white/5 bg-[#0B1120] p-6 space-y-8">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <span className="font-mono text-sm text-slate-500">Question {index + 1}</span>
+                <select
+                  value={getQuestionType(question)}
+                  onChange={e => updateQuestion(q => setQuestionType(q, e.target.value as QuestionType))}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                >
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => handleMove(-1)} disabled={index === 0} className={toolbarButton} title="Move up">
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleMove(1)} disabled={index === questions.length - 1} className={toolbarButton} title="Move down">
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+                <button onClick={() => setQuestions(mergeWithNext(questions, index))} disabled={index === questions.length - 1} className={toolbarButton} title="Merge with next question">
+                  <Merge className="w-4 h-4" />
+                </button>
+                <button onClick={handleDelete} className={`${toolbarButton} hover:text-rose-400 hover:border-rose-500/30`} title="Delete question">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {/* Section and topic tags feed the section scores and topic analytics */}
+            <div className={`grid grid-cols-1 gap-3 ${draft.sections?.length ? 'sm:grid-cols-[auto_auto_1fr_auto]' : 'sm:grid-cols-[auto_1fr_auto]'}`}>
+              {draft.sections && draft.sections.length > 0 && (
+                <select
+                  value={question.sectionId ?? ''}
+                  onChange={e => updateQuestion(q => ({ ...q, sectionId: e.target.value || undefined }))}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                >
+                  <option value="">No section</option>
+                  {draft.sections.map(section => (
+                    <option key={section.id} value={section.id}>{section.name}</option>
+                  ))}
+                </select>
+              )}
+              <select
+                value={question.subject ?? ''}
+                onChange={e => updateQuestion(q => ({ ...q, subject: (e.target.value || undefined) as Subject | undefined }))}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              >
+                <option value="">No subject</option>
+                {Object.entries(SUBJECT_LABELS).map(([subject, label]) => (
+                  <option key={subject} value={subject}>{label}</option>
+                ))}
+              </select>
+              <input
+                value={question.chapter ?? ''}
+                onChange={e => updateQuestion(q => ({ ...q, chapter: e.target.value || undefined }))}
+                placeholder="Chapter"
+                className="bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-slate-300 placeholder:text-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              />
+              <select
+                value={question.difficulty ?? ''}
+                onChange={e => updateQuestion(q => ({ ...q, difficulty: (e.target.value || undefined) as Difficulty | undefined }))}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+              >
+                <option value="">No difficulty</option>
+                {Object.entries(DIFFICULTY_LABELS).map(([difficulty, label]) => (
+                  <option key={difficulty} value={difficulty}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {questionWarnings.length > 0 && (
+              <ul className="space-y-1 text-xs text-amber-200/80">
+                {questionWarnings.map((w, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <AlertTriangle className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" />
+                    {w.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Text */}
+            <div>
+              <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Question Text</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <textarea
+                  value={question.text}
+                  onChange={e => updateQuestion(q => ({ ...q, text: e.target.value }))}
+                  rows={6}
+                  className={`${inputClass} font-mono resize-y`}
+                />
+                <div className="p-3 rounded-lg border border-slate-800 bg-slate-900/40">
+                  <MathPreview text={question.text} />
+                </div>
+              </div>
+            </div>
+
+            {/* Answer */}
+            {getQuestionType(question) === 'NUMERICAL' ? (
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Correct Answer</p>
+                <input
+                  key={question.id}
+                  type="number"
+                  step="any"
+                  defaultValue={question.numericAnswer ?? ''}
+                  onChange={e => handleNumericAnswer(e.target.value)}
+                  className={`${inputClass} max-w-xs font-mono`}
+                />
+              </div>
+            ) : (
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">
+                  Options <span className="normal-case font-normal text-slate-600">· click a label to mark it correct</span>
+                </p>
+                <div className="space-y-3">
+                  {question.options.map(opt => {
+                    const isCorrect = getCorrectOptionIds(question).includes(opt.id);
+                    return (
+                      <div key={opt.id} className="grid grid-cols-[auto_1fr_auto] md:grid-cols-[auto_1fr_1fr_auto] gap-3 items-start">
+                        <button
+                          onClick={() => updateQuestion(q => toggleCorrectOption(q, opt.id))}
+                          className={`w-9 h-9 rounded-lg border text-xs font-bold transition-colors ${isCorrect ? 'border-emerald-500 bg-emerald-500/20 text-emerald-300' : 'border-slate-700 text-slate-500 hover:border-slate-500'}`}
+                          title={isCorrect ? 'Correct option' : 'Mark as correct'}
+                        >
+                          {opt.id}
+                        </button>
+                        <input
+                          value={opt.text}
+                          onChange={e => handleOptionText(opt.id, e.target.value)}
+                          className={`${inputClass} font-mono`}
+                        />
+                        <div className="hidden md:block px-3 py-2 rounded-lg border border-slate-800 bg-slate-900/40">
+                          <MathPreview text={opt.text} />
+                        </div>
+                        <button onClick={() => updateQuestion(q => removeOption(q, opt.id))} className={toolbarButton} title="Remove option">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                {question.options.length < MAX_OPTIONS && (
+                  <button
+                    onClick={() => updateQuestion(addOption)}
+                    className="mt-3 flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-white transition-colors"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Add Option
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Diagram */}
+            {paperDoc && (
+              <div>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <p className="text-xs font-bold text-slate-500 uppercase tracking-wider">
+                    Diagram <span className="normal-case font-normal text-slate-600">· drag on the page to redraw the crop</span>
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                      Page
+                      <select
+                        value={question.pageNumber || 1}
+                        onChange={e => updateQuestion(q => ({ ...q, pageNumber: Number(e.target.value) }))}
+                        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+                      >
+                        {Array.from({ length: paperDoc.numPages }, (_, i) => i + 1).map(page => (
+                          <option key={page} value={page}>{page}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <button
+                      onClick={() => updateQuestion(q => ({ ...q, boundingBox: EMPTY_BOX }))}
+                      className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-rose-400 transition-colors"
+                    >
+                      <ImageOff className="w-3.5 h-3.5" />
+                      No Diagram
+                    </button>
+                  </div>
+                </div>
+                <div className="max-w-2xl">
+                  <DiagramRegionEditor
+                    paperDoc={paperDoc}
+                    pageNumber={question.pageNumber || 1}
+                    boundingBox={question.boundingBox}
+                    onChange={boundingBox => updateQuestion(q => ({ ...q, boundingBox }))}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizEditorSection;
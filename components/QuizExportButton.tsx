@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { SavedPaper } from '../types';
+import { bundleToMarkdown, createQuizBundle, downloadFile, getBundleFilename } from '../services/bundleService';
+import { Download, Loader2, FileJson, FileText } from 'lucide-react';
+
+interface QuizExportButtonProps {
+  paper: SavedPaper;
+}
+
+const QuizExportButton: React.FC<QuizExportButtonProps> = ({ paper }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeAnswers, setIncludeAnswers] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (kind: 'json' | 'md') => {
+    setIsExporting(true);
+    try {
+      const bundle = await createQuizBundle(paper, includeAnswers);
+      if (kind === 'json') {
+        downloadFile(getBundleFilename(paper.quizData.title, 'rankify.json'), JSON.stringify(bundle), 'application/json');
+      } else {
+        downloadFile(getBundleFilename(paper.quizData.title, 'md'), bundleToMarkdown(bundle), 'text/markdown');
+      }
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Failed to export quiz", err);
+      alert("Could not export this quiz. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-lg border border-slate-800 text-slate-500 hover:text-white hover:border-slate-600 transition-colors"
+        title="Export quiz"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-60 rounded-xl border border-slate-700 bg-[#0B1120] shadow-2xl p-2 text-sm animate-in fade-in slide-in-from-top-1 duration-150">
+          <button
+            onClick={() => handleExport('json')}
+            disabled={isExporting}
+            className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-colors disabled:opacity-50"
+          >
+            <FileJson className="w-4 h-4 text-emerald-400 mt-0.5" />
+            <span>
+              <span className="block text-slate-200">Quiz bundle</span>
+              <span className="block text-xs text-slate-500">.json · import without re-scanning</span>
+            </span>
+          </button>
+          <button
+            onClick={() => handleExport('md')}
+            disabled={isExporting}
+            className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-colors disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4 text-blue-400 mt-0.5" />
+            <span>
+              <span className="block text-slate-200">Markdown</span>
+              <span className="block text-xs text-slate-500">.md · readable copy</span>
+            </span>
+          </button>
+          <label className="flex items-center gap-2 px-3 pt-2 mt-1 border-t border-slate-800 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeAnswers}
+              onChange={e => setIncludeAnswers(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Include answer key
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizExportButton;
@@ -1,36 +1,81 @@
-import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
-import { QuizData, UserAnswers } from '../types';
+import React, { useState, useEffect, useMemo, useRef, useLayoutEffect } from 'react';
+import {
+  AttemptProgress, ExamConfig, MarkingScheme, PaperSource, QuestionHints, QuestionTimes, QuizData, QuizSubmission, UserAnswers
+} from '../types';
+import {
+  QUESTION_TYPE_LABELS, QuestionOutcome, formatCorrectAnswer, formatMarks, getCorrectOptionIds, getMarkingScheme, getQuestionType, parseMultiAnswer,
+  scoreQuiz, serializeMultiAnswer
+} from '../services/scoringService';
+import {
+  countAnswered, getQuestionSection, getSectionGroups, getSectionName, hasSections, isAttemptLimitReached
+} from '../services/sectionService';
+import { formatClock, formatWarning } from '../services/examService';
+import MarkingSchemePicker from './MarkingSchemePicker';
+import NumericKeypad from './NumericKeypad';
+import HintLadder from './HintLadder';
 import { 
-  Timer, ZoomIn, ZoomOut, Maximize2, X, Grid, Menu, ImageOff, RefreshCw
+  Timer, ZoomIn, ZoomOut, Maximize2, X, Grid, Menu, ImageOff, RefreshCw, Check, BellRing, Lock, CheckCircle, XCircle, MinusCircle
 } from 'lucide-react';
-import * as pdfjsLib from 'pdfjs-dist';
+import { PaperDocument, loadPaperDocument } from '../services/pdfService';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import gsap from 'gsap';
 
-// Set worker source for PDF.js - MUST MATCH the version in index.html import map
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.8.69/build/pdf.worker.min.mjs`;
-
 interface QuizSectionProps {
   quizData: QuizData;
-  pdfBase64: string | null;
-  onComplete: (answers: UserAnswers) => void;
+  source: PaperSource | null;
+  diagramImages?: Record<number, string>; // Pre-cropped diagrams by question id, for papers imported without their pages
+  onComplete: (submission: QuizSubmission) => void;
   onCancel: () => void;
+  onMarkingSchemeChange: (scheme: MarkingScheme) => void;
+  examConfig?: ExamConfig; // Untimed when missing
+  initialProgress?: AttemptProgress; // Restores a saved attempt
+  deadline?: number; // Timed attempts: when time runs out, as a timestamp
+  onProgress?: (progress: AttemptProgress) => void;
 }
 
+const FEEDBACK_STYLES: Record<QuestionOutcome, { label: string; box: string; text: string }> = {
+  correct: {
+    label: 'Correct',
+    box: 'border-emerald-300 dark:border-emerald-500/30 bg-emerald-50 dark:bg-emerald-950/20',
+    text: 'text-emerald-700 dark:text-emerald-400',
+  },
+  partial: {
+    label: 'Partially correct',
+    box: 'border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-950/20',
+    text: 'text-amber-700 dark:text-amber-400',
+  },
+  incorrect: {
+    label: 'Incorrect',
+    box: 'border-rose-300 dark:border-rose-500/30 bg-rose-50 dark:bg-rose-950/20',
+    text: 'text-rose-700 dark:text-rose-400',
+  },
+  skipped: {
+    label: 'Not graded',
+    box: 'border-slate-300 dark:border-slate-600/40 bg-slate-50 dark:bg-slate-800/40',
+    text: 'text-slate-600 dark:text-slate-400',
+  },
+};
+
 type QuestionStatus = 'not_visited' | 'not_answered' | 'answered' | 'marked_for_review' | 'answered_and_marked';
 
-const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComplete, onCancel }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [answers, setAnswers] = useState<UserAnswers>({});
-  const [markedForReview, setMarkedForReview] = useState<Set<number>>(new Set());
-  const [visited, setVisited] = useState<Set<number>>(new Set([0]));
-  const [seconds, setSeconds] = useState(0);
+const QuizSection: React.FC<QuizSectionProps> = ({
+  quizData, source, diagramImages, onComplete, onCancel, onMarkingSchemeChange, examConfig, initialProgress, deadline, onProgress
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(initialProgress?.currentIndex ?? 0);
+  const [answers, setAnswers] = useState<UserAnswers>(initialProgress?.answers ?? {});
+  const [markedForReview, setMarkedForReview] = useState<Set<number>>(new Set(initialProgress?.markedForReview));
+  const [visited, setVisited] = useState<Set<number>>(new Set(initialProgress?.visited ?? [0]));
+  const [seconds, setSeconds] = useState(initialProgress?.elapsedSeconds ?? 0);
+  const [questionTimes, setQuestionTimes] = useState<QuestionTimes>(initialProgress?.questionTimes ?? {});
+  const [hints, setHints] = useState<QuestionHints>(initialProgress?.hints ?? {});
+  const [checked, setChecked] = useState<Set<number>>(new Set(initialProgress?.checked));
+  const [timeWarning, setTimeWarning] = useState<string | null>(null);
   
   // Visual Control States
   const [diagramScale, setDiagramScale] = useState(1);
-  const [pdfDoc, setPdfDoc] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
+  const [paperDoc, setPaperDoc] = useState<PaperDocument | null>(null);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [isPaletteOpen, setIsPaletteOpen] = useState(true); 
   const [hasDiagram, setHasDiagram] = useState(false);
@@ -38,6 +83,8 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const lightboxCanvasRef = useRef<HTMLCanvasElement>(null);
   const questionContentRef = useRef<HTMLDivElement>(null);
+  // Read by the timer interval, which is created once and would otherwise see a stale index
+  const currentQuestionIdRef = useRef(quizData.questions[currentIndex]?.id);
 
   // Animate Question Transition
   useEffect(() => {
@@ -49,24 +96,23 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
     }
   }, [currentIndex]);
 
-  // Initialize PDF
+  // Initialize the paper's pages, from the PDF or the uploaded images
   useEffect(() => {
-    const loadPdf = async () => {
-      if (!pdfBase64) return;
+    const loadPaper = async () => {
+      if (!source) return;
       try {
-        const loadingTask = pdfjsLib.getDocument({ data: atob(pdfBase64) });
-        const doc = await loadingTask.promise;
-        setPdfDoc(doc);
+        const doc = await loadPaperDocument(source);
+        setPaperDoc(doc);
       } catch (error) {
-        console.error("Error loading PDF", error);
+        console.error("Error loading paper", error);
       }
     };
-    loadPdf();
-  }, [pdfBase64]);
+    loadPaper();
+  }, [source]);
 
-  // PDF Rendering Logic
+  // Page Rendering Logic
   const renderPageOnCanvas = async (canvas: HTMLCanvasElement, scaleMultiplier: number = 1.0) => {
-    if (!pdfDoc || !quizData.questions[currentIndex]) return;
+    if (!paperDoc || !quizData.questions[currentIndex]) return;
 
     const question = quizData.questions[currentIndex];
     const pageNum = question.pageNumber || 1;
@@ -83,34 +129,8 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
     setHasDiagram(true);
 
     try {
-      const page = await pdfDoc.getPage(pageNum);
       // Higher base scale for better resolution on canvas
-      const viewport = page.getViewport({ scale: 2.0 }); 
-      
-      const [ymin, xmin, ymax, xmax] = bbox;
-      
-      // Add a small padding (50 units on 1000 scale) to the bounding box
-      const pad = 20;
-      const x = Math.max(0, (xmin - pad) / 1000 * viewport.width);
-      const y = Math.max(0, (ymin - pad) / 1000 * viewport.height);
-      const w = Math.min(viewport.width - x, ((xmax + pad) - (xmin - pad)) / 1000 * viewport.width);
-      const h = Math.min(viewport.height - y, ((ymax + pad) - (ymin - pad)) / 1000 * viewport.height);
-
-      const context = canvas.getContext('2d');
-      if (!context) return;
-
-      canvas.width = w;
-      canvas.height = h;
-
-      context.clearRect(0, 0, canvas.width, canvas.height);
-      
-      const renderContext = {
-        canvasContext: context,
-        viewport: viewport,
-        transform: [1, 0, 0, 1, -x, -y] 
-      };
-
-      await page.render(renderContext as any).promise;
+      await paperDoc.renderPage(pageNum, canvas, 2.0, bbox);
     } catch (err) {
       console.error("Render error", err);
     }
@@ -122,29 +142,109 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
         setDiagramScale(1);
         renderPageOnCanvas(canvasRef.current, 1.0);
     }
-  }, [pdfDoc, currentIndex, quizData]);
+  }, [paperDoc, currentIndex, quizData]);
 
   useEffect(() => {
     if (isLightboxOpen && lightboxCanvasRef.current) renderPageOnCanvas(lightboxCanvasRef.current, 1.5);
-  }, [isLightboxOpen, pdfDoc, currentIndex]);
+  }, [isLightboxOpen, paperDoc, currentIndex]);
 
-  // Timer
   useEffect(() => {
-    const timer = setInterval(() => setSeconds(s => s + 1), 1000);
+    currentQuestionIdRef.current = quizData.questions[currentIndex]?.id;
+  }, [currentIndex, quizData]);
+
+  // Timer - every tick is also charged to the question on screen
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setSeconds(s => s + 1);
+      const questionId = currentQuestionIdRef.current;
+      if (questionId !== undefined) {
+        setQuestionTimes(prev => ({ ...prev, [questionId]: (prev[questionId] || 0) + 1 }));
+      }
+    }, 1000);
     return () => clearInterval(timer);
   }, []);
 
-  const formatTime = (secs: number) => {
-    const h = Math.floor(secs / 3600);
-    const m = Math.floor((secs % 3600) / 60);
-    const s = secs % 60;
-    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  // Report progress so the attempt survives a page reload
+  useEffect(() => {
+    onProgress?.({
+      answers,
+      markedForReview: Array.from(markedForReview),
+      visited: Array.from(visited),
+      currentIndex,
+      elapsedSeconds: seconds,
+      questionTimes,
+      hints,
+      checked: Array.from(checked),
+    });
+  }, [answers, markedForReview, visited, currentIndex, seconds, questionTimes, hints, checked]);
+
+  const isTimed = examConfig?.mode === 'timed';
+  const isPractice = examConfig?.mode === 'practice';
+  const hasInstantFeedback = isPractice && !!examConfig.instantFeedback;
+  // Counted down to a fixed time, so the clock keeps running while the tab is closed. Attempts saved before
+  // deadlines were stored resume with the time they had left.
+  const [deadlineAt] = useState(() =>
+    deadline ?? Date.now() + ((examConfig?.durationSeconds ?? 0) - (initialProgress?.elapsedSeconds ?? 0)) * 1000
+  );
+  const secondsRemaining = isTimed ? Math.max(0, Math.ceil((deadlineAt - Date.now()) / 1000)) : 0;
+  const isLowOnTime = isTimed && examConfig.warningThresholds.length > 0
+    && secondsRemaining <= Math.min(...examConfig.warningThresholds);
+  const hasSubmittedRef = useRef(false);
+  const lastRemainingRef = useRef(secondsRemaining);
+
+  const submit = (timedOut: boolean) => {
+    if (hasSubmittedRef.current) return;
+    hasSubmittedRef.current = true;
+    onComplete({ answers, questionTimes, hints, timedOut });
   };
 
+  // Countdown warnings and auto-submit; also runs on mount, so an attempt reopened after its deadline ends at once.
+  // A background tab can skip ticks, so a warning is shown once its threshold has been passed.
+  useEffect(() => {
+    if (!isTimed) return;
+    if (secondsRemaining === 0) {
+      submit(true);
+      return;
+    }
+    const passed = examConfig.warningThresholds.filter(t => t < lastRemainingRef.current && t >= secondsRemaining);
+    lastRemainingRef.current = secondsRemaining;
+    if (passed.length > 0) setTimeWarning(formatWarning(Math.min(...passed)));
+  }, [seconds]);
+
+  useEffect(() => {
+    if (!timeWarning) return;
+    const hide = setTimeout(() => setTimeWarning(null), 6000);
+    return () => clearTimeout(hide);
+  }, [timeWarning]);
+
   // Navigation & State
   const question = quizData.questions[currentIndex];
+  const questionType = getQuestionType(question);
+  const diagramImage = diagramImages?.[question.id];
+  const showsDiagram = hasDiagram || !!diagramImage;
   const totalQuestions = quizData.questions.length;
 
+  // Sections become palette tabs; the active tab always follows the question on screen
+  const sectionGroups = useMemo(() => getSectionGroups(quizData), [quizData]);
+  const showsSections = hasSections(quizData);
+  const currentGroup = sectionGroups.find(g => g.questionIndices.includes(currentIndex)) ?? sectionGroups[0];
+  const currentSection = getQuestionSection(quizData, question);
+  const paletteIndices = showsSections ? currentGroup.questionIndices : quizData.questions.map((_, index) => index);
+  const sectionAnswered = countAnswered(currentGroup.questionIndices.map(index => quizData.questions[index]), answers);
+  const isLimitReached = isAttemptLimitReached(quizData, question, answers);
+  const isChecked = hasInstantFeedback && checked.has(question.id);
+
+  // Only confirmed answers count towards the running score
+  const liveScore = useMemo(() => {
+    if (!hasInstantFeedback) return null;
+    const confirmed: UserAnswers = {};
+    checked.forEach(id => {
+      if (answers[id]) confirmed[id] = answers[id];
+    });
+    return scoreQuiz(quizData, confirmed);
+  }, [hasInstantFeedback, quizData, answers, checked]);
+  const feedback = isChecked ? liveScore?.perQuestion[question.id] : undefined;
+
   const navigateTo = (index: number) => {
     setVisited(prev => new Set(prev).add(index));
     setCurrentIndex(index);
@@ -152,10 +252,25 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
   };
 
   const handleOptionSelect = (optionId: string) => {
-    setAnswers(prev => ({ ...prev, [question.id]: optionId }));
+    if (isLimitReached || isChecked) return;
+    if (questionType !== 'MULTIPLE_CORRECT') {
+      setAnswers(prev => ({ ...prev, [question.id]: optionId }));
+      return;
+    }
+    const selected = parseMultiAnswer(answers[question.id]);
+    const next = selected.includes(optionId) ? selected.filter(id => id !== optionId) : [...selected, optionId];
+    if (next.length === 0) handleClearResponse();
+    else setAnswers(prev => ({ ...prev, [question.id]: serializeMultiAnswer(next) }));
+  };
+
+  const handleNumericChange = (value: string) => {
+    if (isLimitReached || isChecked) return;
+    if (value === '') handleClearResponse();
+    else setAnswers(prev => ({ ...prev, [question.id]: value }));
   };
 
   const handleClearResponse = () => {
+    if (isChecked) return;
     setAnswers(prev => {
       const newAnswers = { ...prev };
       delete newAnswers[question.id];
@@ -173,6 +288,14 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
     if (currentIndex < totalQuestions - 1) navigateTo(currentIndex + 1);
   };
 
+  // A half-typed numeric entry such as "-" or "." would otherwise be locked in and graded as skipped
+  const canCheck = !!answers[question.id]
+    && (questionType !== 'NUMERICAL' || Number.isFinite(Number(answers[question.id].trim())));
+
+  const handleCheckAnswer = () => {
+    if (canCheck) setChecked(prev => new Set(prev).add(question.id));
+  };
+
   const handleSaveAndNext = () => {
     if (currentIndex < totalQuestions - 1) navigateTo(currentIndex + 1);
   };
@@ -215,7 +338,11 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
                <X className="w-6 h-6" />
              </button>
              <div className="overflow-auto max-w-full max-h-full flex items-center justify-center">
-                 <canvas ref={lightboxCanvasRef} className="rounded-lg shadow-2xl bg-white" />
+                 {diagramImage ? (
+                   <img src={diagramImage} alt="Diagram" className="rounded-lg shadow-2xl bg-white max-w-full" />
+                 ) : (
+                   <canvas ref={lightboxCanvasRef} className="rounded-lg shadow-2xl bg-white" />
+                 )}
              </div>
           </div>
         </div>
@@ -224,7 +351,9 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
       {/* CBT Header */}
       <header className="h-16 bg-white dark:bg-[#1e293b] border-b border-slate-200 dark:border-slate-700 flex items-center justify-between px-4 z-20 flex-shrink-0 shadow-sm">
         <div className="flex items-center gap-3">
-          <div className="bg-emerald-600 text-white px-2 py-1 rounded text-xs font-bold uppercase tracking-wider">Online</div>
+          <div className={`${isPractice ? 'bg-amber-500' : 'bg-emerald-600'} text-white px-2 py-1 rounded text-xs font-bold uppercase tracking-wider`}>
+            {isPractice ? 'Practice' : 'Online'}
+          </div>
           <h1 className="font-bold text-lg hidden sm:block tracking-tight">Rankify CBT</h1>
           <div className="h-6 w-px bg-slate-300 dark:bg-slate-600 mx-2 hidden sm:block"></div>
           <h2 className="text-sm sm:text-base font-medium text-slate-600 dark:text-slate-300 truncate max-w-[200px] sm:max-w-md">
@@ -233,10 +362,21 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
         </div>
         
         <div className="flex items-center gap-3">
+          {liveScore && (
+            <div className="flex items-center gap-2 bg-slate-900 dark:bg-black text-white px-3 py-1.5 rounded-md font-mono text-sm shadow-sm border border-slate-800" title="Score of the answers checked so far">
+              <span className="text-emerald-400">{formatMarks(liveScore.score)}</span>
+              <span className="text-slate-400 text-xs">{liveScore.correct}/{checked.size} correct</span>
+            </div>
+          )}
+
           {/* Timer */}
-          <div className="flex items-center gap-2 bg-slate-900 dark:bg-black text-white px-3 py-1.5 rounded-md font-mono text-sm shadow-sm border border-slate-800">
-            <Timer className="w-4 h-4 text-emerald-400" />
-            <span className={seconds > 3600 ? "" : "text-emerald-50"}>{formatTime(seconds)}</span>
+          <div className={`flex items-center gap-2 bg-slate-900 dark:bg-black text-white px-3 py-1.5 rounded-md font-mono text-sm shadow-sm border ${isLowOnTime ? 'border-rose-500 animate-pulse' : 'border-slate-800'}`}>
+            <Timer className={`w-4 h-4 ${isLowOnTime ? 'text-rose-400' : 'text-emerald-400'}`} />
+            {isTimed ? (
+              <span className={isLowOnTime ? "text-rose-300" : "text-emerald-50"} title="Time remaining">{formatClock(secondsRemaining)}</span>
+            ) : (
+              <span className={seconds > 3600 ? "" : "text-emerald-50"}>{formatClock(seconds)}</span>
+            )}
           </div>
 
           {/* Menu Toggle for Mobile */}
@@ -249,10 +389,27 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
         </div>
       </header>
 
+      {/* Time Warning Toast */}
+      {timeWarning && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[90] flex items-center gap-3 px-4 py-3 rounded-xl bg-amber-500 text-amber-950 font-semibold text-sm shadow-xl animate-in slide-in-from-top-2 fade-in">
+          <BellRing className="w-4 h-4" />
+          {timeWarning}
+          <button onClick={() => setTimeWarning(null)} className="p-0.5 rounded hover:bg-amber-600/30">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Info Bar */}
       <div className="h-8 bg-emerald-600/10 dark:bg-emerald-950/30 border-b border-emerald-600/20 flex items-center justify-between px-4 text-xs font-medium text-emerald-800 dark:text-emerald-400 flex-shrink-0">
-        <span>Type: <span className="font-bold">MCQ</span></span>
-        <span>Marking: <span className="font-bold text-emerald-600 dark:text-emerald-400">+4</span> / <span className="font-bold text-rose-600 dark:text-rose-400">-1</span></span>
+        <span>Type: <span className="font-bold">{questionType === 'NUMERICAL' ? 'Numerical' : 'MCQ'}</span></span>
+        {currentSection?.markingScheme ? (
+          <span>
+            Section Marking: <span className="font-bold">{formatMarks(currentSection.markingScheme.correct)} / {formatMarks(currentSection.markingScheme.incorrect)}</span>
+          </span>
+        ) : (
+          <span className="flex items-center gap-2">Marking: <MarkingSchemePicker scheme={getMarkingScheme(quizData)} onChange={onMarkingSchemeChange} /></span>
+        )}
       </div>
 
       {/* Main Content Body */}
@@ -263,15 +420,28 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
           
           {/* Question Top Bar */}
           <div className="h-10 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-[#1e293b] flex items-center justify-between px-4 flex-shrink-0">
-             <span className="font-bold text-slate-700 dark:text-slate-200">Question {currentIndex + 1}</span>
-             <span className="text-xs text-slate-500">Single Correct Option</span>
+             <span className="font-bold text-slate-700 dark:text-slate-200">
+               Question {currentIndex + 1}
+               {showsSections && <span className="ml-2 text-xs font-medium text-slate-500">{getSectionName(currentSection)}</span>}
+             </span>
+             <span className="text-xs text-slate-500">{QUESTION_TYPE_LABELS[questionType]}</span>
           </div>
 
+          {/* Section Instructions */}
+          {currentSection && (currentSection.attemptLimit || currentSection.instructions) && (
+            <div className="px-4 py-2 border-b border-blue-200 dark:border-blue-900/40 bg-blue-50 dark:bg-blue-950/20 text-xs text-blue-800 dark:text-blue-300 flex-shrink-0">
+              {currentSection.attemptLimit && (
+                <span className="font-semibold mr-1">Attempt any {currentSection.attemptLimit} of {currentGroup.questionIndices.length}.</span>
+              )}
+              {currentSection.instructions}
+            </div>
+          )}
+
           {/* Question Content (Split View) */}
           <div className="flex-1 overflow-hidden">
              <div className="flex flex-col lg:flex-row h-full">
                 
-                {/* Visual Panel (PDF Diagram) - Scrollable & Zoomable */}
+                {/* Visual Panel (Page Diagram) - Scrollable & Zoomable */}
                 <div className="w-full lg:w-1/2 h-64 lg:h-full bg-slate-100 dark:bg-[#0B1120] border-b lg:border-b-0 lg:border-r border-slate-200 dark:border-slate-700 relative flex flex-col transition-all duration-300">
                    <div className="absolute top-2 right-2 z-10 flex flex-col gap-1 bg-white dark:bg-slate-800 rounded-md shadow-md border border-slate-200 dark:border-slate-700 p-1">
                       <button onClick={handleZoomIn} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded text-slate-600 dark:text-slate-400 transition-colors" title="Zoom In">
@@ -283,7 +453,7 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
                       <button onClick={handleResetZoom} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded text-slate-600 dark:text-slate-400 transition-colors" title="Reset">
                         <RefreshCw className="w-4 h-4" />
                       </button>
-                      {hasDiagram && (
+                      {showsDiagram && (
                         <button onClick={() => setIsLightboxOpen(true)} className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded text-slate-600 dark:text-slate-400 transition-colors" title="Fullscreen">
                             <Maximize2 className="w-4 h-4" />
                         </button>
@@ -299,15 +469,19 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
                         }}
                         className="flex items-center justify-center min-w-min min-h-min"
                      >
-                        {pdfDoc ? (
+                        {diagramImage ? (
+                            <div className="bg-white shadow-lg">
+                                <img src={diagramImage} alt="Diagram" />
+                            </div>
+                        ) : paperDoc ? (
                             <div className={`${!hasDiagram ? 'hidden' : 'block'} bg-white shadow-lg`}>
                                 <canvas ref={canvasRef} />
                             </div>
-                        ) : (
+                        ) : source && (
                           <div className="flex items-center gap-2 text-slate-400 text-sm">Loading Diagram...</div>
                         )}
 
-                        {!hasDiagram && pdfDoc && (
+                        {!showsDiagram && (paperDoc || !source) && (
                             <div className="flex flex-col items-center justify-center text-slate-400 gap-2 opacity-50 select-none">
                                 <ImageOff className="w-12 h-12" />
                                 <span className="text-sm font-medium">No Diagram Detected</span>
@@ -329,25 +503,48 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
                             </ReactMarkdown>
                         </div>
 
-                        <div className="flex flex-col gap-3">
-                            {question.options.map((option) => {
-                            const isSelected = answers[question.id] === option.id;
+                        {isLimitReached && currentSection && (
+                            <div className="flex items-start gap-2 p-3 rounded-lg border border-rose-300 dark:border-rose-500/30 bg-rose-50 dark:bg-rose-950/20 text-sm text-rose-700 dark:text-rose-300">
+                                <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                <span>
+                                    You have already answered {currentSection.attemptLimit} questions in {currentSection.name}.
+                                    Clear one of those answers to attempt this question instead.
+                                </span>
+                            </div>
+                        )}
+
+                        <div className={`flex flex-col gap-3 ${isLimitReached ? 'opacity-50 cursor-not-allowed' : ''} ${isChecked ? 'pointer-events-none' : ''}`}>
+                            {questionType === 'NUMERICAL' && (
+                                <NumericKeypad value={answers[question.id] || ''} onChange={handleNumericChange} />
+                            )}
+                            {questionType !== 'NUMERICAL' && question.options.map((option) => {
+                            const isMulti = questionType === 'MULTIPLE_CORRECT';
+                            const isSelected = isMulti
+                                ? parseMultiAnswer(answers[question.id]).includes(option.id)
+                                : answers[question.id] === option.id;
+                            const isCorrectOption = isChecked && getCorrectOptionIds(question).includes(option.id);
                             return (
                                 <label 
                                 key={option.id}
                                 className={`flex items-start gap-4 p-4 rounded-xl border cursor-pointer transition-all duration-200
-                                    ${isSelected 
+                                    ${isCorrectOption
+                                    ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-500 ring-1 ring-emerald-500'
+                                    : isChecked && isSelected
+                                    ? 'bg-rose-50 dark:bg-rose-900/20 border-rose-500 ring-1 ring-rose-500'
+                                    : isSelected
                                     ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-500 ring-1 ring-blue-500 shadow-md' 
                                     : 'bg-white dark:bg-[#0B1120] border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 hover:border-slate-500'}
                                 `}
                                 >
-                                <div className={`mt-0.5 w-6 h-6 rounded-full border flex items-center justify-center flex-shrink-0 transition-colors
+                                <div className={`mt-0.5 w-6 h-6 ${isMulti ? 'rounded-md' : 'rounded-full'} border flex items-center justify-center flex-shrink-0 transition-colors
                                     ${isSelected ? 'border-blue-500 bg-blue-500' : 'border-slate-400'}
                                 `}>
-                                    {isSelected && <div className="w-2.5 h-2.5 bg-white rounded-full" />}
+                                    {isSelected && (isMulti
+                                        ? <Check className="w-4 h-4 text-white" />
+                                        : <div className="w-2.5 h-2.5 bg-white rounded-full" />)}
                                 </div>
                                 <input 
-                                    type="radio" 
+                                    type={isMulti ? 'checkbox' : 'radio'} 
                                     name={`question-${question.id}`} 
                                     className="hidden"
                                     checked={isSelected}
@@ -367,6 +564,39 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
                             );
                             })}
                         </div>
+
+                        {feedback && (
+                            <div className={`p-4 rounded-xl border ${FEEDBACK_STYLES[feedback.outcome].box}`}>
+                                <div className="flex items-center justify-between gap-3 mb-2">
+                                    <span className={`flex items-center gap-2 font-bold ${FEEDBACK_STYLES[feedback.outcome].text}`}>
+                                        {feedback.outcome === 'incorrect' ? <XCircle className="w-5 h-5" /> : feedback.outcome === 'skipped' ? <MinusCircle className="w-5 h-5" /> : <CheckCircle className="w-5 h-5" />}
+                                        {feedback.uncounted ? 'Not counted: over the section\'s attempt limit' : FEEDBACK_STYLES[feedback.outcome].label}
+                                    </span>
+                                    <span className="font-mono text-sm text-slate-600 dark:text-slate-400">{formatMarks(feedback.marks)}</span>
+                                </div>
+                                <p className="text-sm text-slate-700 dark:text-slate-300">
+                                    Answer: <span className="font-mono font-semibold">{formatCorrectAnswer(question)}</span>
+                                </p>
+                                {question.explanation && (
+                                    <div className="mt-2 text-sm text-slate-700 dark:text-slate-300 math-content">
+                                        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                            {question.explanation}
+                                        </ReactMarkdown>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {isPractice && !isChecked && (
+                            <HintLadder
+                                key={question.id}
+                                question={question}
+                                hints={hints[question.id] ?? []}
+                                onReveal={hint => setHints(prev => ({ ...prev, [question.id]: [...(prev[question.id] ?? []), hint] }))}
+                                source={source}
+                                diagramImages={diagramImages}
+                            />
+                        )}
                    </div>
                 </div>
 
@@ -384,13 +614,23 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
                </button>
                <button 
                  onClick={handleClearResponse}
-                 className="px-4 py-2 rounded-md border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 text-sm font-semibold transition-colors"
+                 disabled={isChecked}
+                 className="px-4 py-2 rounded-md border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 text-sm font-semibold transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
                >
                  Clear Response
                </button>
              </div>
 
              <div className="flex gap-2">
+               {hasInstantFeedback && !isChecked && (
+                 <button
+                   onClick={handleCheckAnswer}
+                   disabled={!canCheck}
+                   className="px-4 py-2 rounded-md border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 text-sm font-semibold transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                 >
+                   Check Answer
+                 </button>
+               )}
                <button 
                  onClick={handleSaveAndNext}
                  className="px-6 py-2 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white text-sm font-semibold shadow-md shadow-emerald-900/20 transition-all hover:scale-105"
@@ -427,11 +667,39 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
              <div className="col-span-2 flex items-center gap-2"><div className="w-4 h-4 bg-purple-500 text-white flex items-center justify-center rounded-sm text-[8px] relative"><div className="absolute top-0.5 right-0.5 w-1.5 h-1.5 bg-emerald-400 rounded-full"></div></div> Marked & Answered</div>
           </div>
 
+          {/* Section Tabs */}
+          {showsSections && (
+            <div className="flex gap-1 overflow-x-auto px-2 pt-2 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-[#1e293b] custom-scrollbar">
+              {sectionGroups.map(group => {
+                const isActive = group === currentGroup;
+                return (
+                  <button
+                    key={group.section?.id ?? 'general'}
+                    onClick={() => navigateTo(group.questionIndices[0])}
+                    className={`px-3 py-2 text-xs font-semibold whitespace-nowrap border-b-2 transition-colors
+                      ${isActive ? 'border-blue-500 text-blue-600 dark:text-blue-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}
+                    `}
+                  >
+                    {getSectionName(group.section)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Palette Grid */}
           <div className="flex-1 overflow-y-auto p-4 bg-slate-50 dark:bg-[#0f172a]/50">
-             <div className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider">Questions</div>
+             <div className="flex items-center justify-between mb-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+               <span>{showsSections ? getSectionName(currentGroup.section) : 'Questions'}</span>
+               {currentGroup.section?.attemptLimit && (
+                 <span className={`font-mono normal-case ${sectionAnswered >= currentGroup.section.attemptLimit ? 'text-rose-500' : ''}`}>
+                   {sectionAnswered}/{currentGroup.section.attemptLimit} answered
+                 </span>
+               )}
+             </div>
              <div className="grid grid-cols-4 gap-2">
-                {quizData.questions.map((q, idx) => {
+                {paletteIndices.map(idx => {
+                  const q = quizData.questions[idx];
                   const status = getQuestionStatus(idx, q.id);
                   const colorClass = getStatusColor(status);
                   return (
@@ -456,7 +724,7 @@ const QuizSection: React.FC<QuizSectionProps> = ({ quizData, pdfBase64, onComple
           {/* Submit Button Area */}
           <div className="p-4 border-t border-slate-200 dark:border-slate-700 bg-white dark:bg-[#1e293b]">
              <button 
-               onClick={onComplete.bind(null, answers)}
+               onClick={() => submit(false)}
                className="w-full py-3 bg-blue-600 hover:bg-blue-700 text-white font-bold rounded-lg shadow-lg shadow-blue-600/20 transition-all hover:scale-[1.02] active:scale-[0.98]"
              >
                Submit Test
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ReportInput, buildReportHtml, printReport } from '../services/reportService';
+import { downloadFile, getBundleFilename } from '../services/bundleService';
+import { FileDown, Loader2, Printer, FileCode } from 'lucide-react';
+
+interface ReportExportButtonProps {
+  report: ReportInput;
+}
+
+const ReportExportButton: React.FC<ReportExportButtonProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (kind: 'html' | 'print') => {
+    setIsExporting(true);
+    try {
+      const html = await buildReportHtml(report);
+      if (kind === 'html') downloadFile(getBundleFilename(`${report.quizData.title} report`, 'html'), html, 'text/html');
+      else printReport(html);
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Failed to export report", err);
+      alert("Could not export the report. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-white transition-colors"
+      >
+        {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileDown className="w-3.5 h-3.5" />}
+        Export Report
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-56 rounded-xl border border-slate-700 bg-[#0B1120] shadow-2xl p-2 text-sm animate-in fade-in slide-in-from-top-1 duration-150">
+          <button
+            onClick={() => handleExport('html')}
+            disabled={isExporting}
+            className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-colors disabled:opacity-50"
+          >
+            <FileCode className="w-4 h-4 text-emerald-400 mt-0.5" />
+            <span>
+              <span className="block text-slate-200">HTML file</span>
+              <span className="block text-xs text-slate-500">Self-contained, opens offline</span>
+            </span>
+          </button>
+          <button
+            onClick={() => handleExport('print')}
+            disabled={isExporting}
+            className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-colors disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4 text-blue-400 mt-0.5" />
+            <span>
+              <span className="block text-slate-200">Print / PDF</span>
+              <span className="block text-xs text-slate-500">Choose "Save as PDF" to keep a copy</span>
+            </span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportExportButton;
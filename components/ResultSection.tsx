@@ -1,12 +1,24 @@
 import React, { useMemo, useState } from 'react';
-import { QuizData, UserAnswers } from '../types';
+import { PaperSource, Question, QuestionHints, QuestionTimes, QuizData, RetakeMode, TutorMessage, UserAnswers } from '../types';
 import { 
   CheckCircle, XCircle, Award, RotateCcw, ChevronDown, ChevronUp, 
-  AlertTriangle, Sparkles, Loader2, PieChart as PieIcon, BarChart2,
-  Clock, Target
+  AlertTriangle, PieChart as PieIcon, BarChart2,
+  Clock, Target, BookCheck, Scale, PenLine, Lightbulb
 } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as ReTooltip } from 'recharts';
-import { getDetailedSolution } from '../services/geminiService';
+import { getAIProvider } from '../services/aiService';
+import {
+  formatCorrectAnswer, formatMarks, getCorrectOptionIds, getMarkingScheme, getQuestionType, parseMultiAnswer, scoreQuiz
+} from '../services/scoringService';
+import TimeAnalysisPanel, { formatDuration } from './TimeAnalysisPanel';
+import TopicAnalysisPanel from './TopicAnalysisPanel';
+import SectionScoresPanel from './SectionScoresPanel';
+import { DIFFICULTY_LABELS, SUBJECT_LABELS } from '../services/topicService';
+import ReportExportButton from './ReportExportButton';
+import RetakeButton from './RetakeButton';
+import TutorChat from './TutorChat';
+import { HINT_LADDER, buildTutorContext, getQuestionImage } from '../services/tutorService';
+import { RetakeOptions } from '../services/retakeService';
 import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
@@ -14,37 +26,84 @@ import rehypeKatex from 'rehype-katex';
 interface ResultSectionProps {
   quizData: QuizData;
   userAnswers: UserAnswers;
+  questionTimes: QuestionTimes;
+  hints?: QuestionHints; // Revealed during a practice attempt
+  source: PaperSource | null; // Source of the diagram crops in exported reports and tutor chats
+  diagramImages?: Record<number, string>;
+  timedOut?: boolean; // The countdown ran out and the attempt was auto-submitted
   onRetry: () => void;
+  onEdit?: () => void; // Opens the editor to fix a question; the report re-grades on return. Missing for revision sessions
+  retakeChoices?: Record<RetakeMode, number[]>; // Question ids per kind of retake. Missing for revision sessions
+  onRetake?: (options: RetakeOptions) => void;
 }
 
-const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, onRetry }) => {
+// AI-solved answers below this confidence are flagged so they aren't trusted blindly
+const LOW_CONFIDENCE = 0.6;
+
+const formatAiAnswer = (question: Question) =>
+  getQuestionType(question) === 'NUMERICAL' ? question.aiAnswer : parseMultiAnswer(question.aiAnswer).join(', ');
+
+const AnswerSourceBadge: React.FC<{ question: Question }> = ({ question }) => {
+  if (question.aiAnswer) {
+    return (
+      <span className="text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full border border-amber-500/30 bg-amber-500/10 text-amber-400 flex-shrink-0 mt-1">
+        Disputed
+      </span>
+    );
+  }
+  if (question.answerSource === 'MANUAL') {
+    return (
+      <span className="text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full border border-slate-700 text-slate-400 flex-shrink-0 mt-1" title="Answer corrected by hand">
+        Edited
+      </span>
+    );
+  }
+  if (question.answerSource === 'ANSWER_KEY') {
+    return (
+      <span className="text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full border border-slate-700 text-slate-400 flex-shrink-0 mt-1" title="Graded against the printed answer key">
+        Key
+      </span>
+    );
+  }
+  const isLow = question.confidence !== undefined && question.confidence < LOW_CONFIDENCE;
+  return (
+    <span
+      className={`text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full border flex-shrink-0 mt-1 ${isLow ? 'border-amber-500/30 text-amber-400' : 'border-slate-800 text-slate-500'}`}
+      title="No printed key for this question; graded against the AI's own solution"
+    >
+      AI{question.confidence !== undefined && ` · ${Math.round(question.confidence * 100)}%`}
+    </span>
+  );
+};
+
+const ResultSection: React.FC<ResultSectionProps> = ({
+  quizData, userAnswers, questionTimes, hints = {}, source, diagramImages, timedOut, onRetry, onEdit, retakeChoices, onRetake
+}) => {
   const [expandedQuestion, setExpandedQuestion] = useState<number | null>(null);
-  const [detailedSolutions, setDetailedSolutions] = useState<Record<number, string>>({});
-  const [loadingSolutions, setLoadingSolutions] = useState<Record<number, boolean>>({});
-
-  const results = useMemo(() => {
-    let correct = 0;
-    let incorrect = 0;
-    let skipped = 0;
-
-    quizData.questions.forEach(q => {
-      const userAnswer = userAnswers[q.id];
-      if (!userAnswer) {
-        skipped++;
-      } else if (userAnswer === q.correctOptionId) {
-        correct++;
-      } else {
-        incorrect++;
-      }
+  const [tutorChats, setTutorChats] = useState<Record<number, TutorMessage[]>>({});
+
+  const scheme = getMarkingScheme(quizData);
+  const results = useMemo(() => scoreQuiz(quizData, userAnswers), [quizData, userAnswers]);
+
+  // The exported report carries the tutor's replies in place of a single solution
+  const detailedSolutions = useMemo(() => {
+    const solutions: Record<number, string> = {};
+    Object.entries(tutorChats).forEach(([id, messages]) => {
+      const replies = messages.filter(m => m.role === 'model').map(m => m.text);
+      if (replies.length > 0) solutions[Number(id)] = replies.join('\n\n---\n\n');
     });
+    return solutions;
+  }, [tutorChats]);
 
-    return { correct, incorrect, skipped, total: quizData.questions.length };
-  }, [quizData, userAnswers]);
+  const disputedQuestions = quizData.questions.filter(q => q.aiAnswer);
+  const hintedQuestions = quizData.questions.filter(q => hints[q.id]?.length);
+  const solvedWithHints = hintedQuestions.filter(q => ['correct', 'partial'].includes(results.perQuestion[q.id].outcome));
 
-  const percentage = Math.round((results.correct / results.total) * 100);
+  const percentage = results.maxMarks > 0 ? Math.round((Math.max(0, results.score) / results.maxMarks) * 100) : 0;
 
   const chartData = [
     { name: 'Correct', value: results.correct, color: '#10b981' },
+    { name: 'Partial', value: results.partial, color: '#f59e0b' },
     { name: 'Incorrect', value: results.incorrect, color: '#f43f5e' },
     { name: 'Skipped', value: results.skipped, color: '#64748b' },
   ];
@@ -53,19 +112,9 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
     setExpandedQuestion(expandedQuestion === id ? null : id);
   };
 
-  const handleSolveWithAI = async (e: React.MouseEvent, qId: number, qText: string, options: any[]) => {
-    e.stopPropagation(); 
-    if (detailedSolutions[qId]) return;
-
-    setLoadingSolutions(prev => ({ ...prev, [qId]: true }));
-    try {
-      const solution = await getDetailedSolution(qText, options);
-      setDetailedSolutions(prev => ({ ...prev, [qId]: solution }));
-    } catch (err) {
-      console.error(err);
-    } finally {
-      setLoadingSolutions(prev => ({ ...prev, [qId]: false }));
-    }
+  const handleSelectQuestion = (id: number) => {
+    setExpandedQuestion(id);
+    document.getElementById(`result-question-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
   };
 
   return (
@@ -81,12 +130,31 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
            <h2 className="text-3xl md:text-4xl font-bold text-white tracking-tight">
              {quizData.title}
            </h2>
+           {(timedOut || hintedQuestions.length > 0) && (
+             <div className="mt-3 flex flex-wrap gap-2">
+               {timedOut && (
+                 <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-amber-500/10 border border-amber-500/30 text-amber-400 text-xs font-mono uppercase tracking-wider">
+                   <Clock className="w-3.5 h-3.5" />
+                   Time ran out · Auto-submitted
+                 </div>
+               )}
+               {hintedQuestions.length > 0 && (
+                 <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-amber-500/10 border border-amber-500/30 text-amber-400 text-xs font-mono uppercase tracking-wider">
+                   <Lightbulb className="w-3.5 h-3.5" />
+                   Hints on {hintedQuestions.length} question{hintedQuestions.length === 1 ? '' : 's'} · {solvedWithHints.length} solved with hints
+                 </div>
+               )}
+             </div>
+           )}
         </div>
         <div className="flex items-center gap-4">
            <div className="text-right">
               <p className="text-xs text-slate-500 uppercase tracking-wider font-semibold">Total Score</p>
               <p className={`text-3xl font-bold font-mono ${percentage >= 70 ? 'text-emerald-400' : 'text-slate-200'}`}>
-                {percentage}%
+                {results.score}<span className="text-lg text-slate-500">/{results.maxMarks}</span>
+              </p>
+              <p className="text-[10px] text-slate-500 font-mono uppercase tracking-wider">
+                {scheme.label} ({formatMarks(scheme.correct)} / {formatMarks(scheme.incorrect)}) · {percentage}%
               </p>
            </div>
            <div className={`w-12 h-12 rounded-full flex items-center justify-center border-2 ${percentage >= 70 ? 'border-emerald-500 bg-emerald-500/10' : 'border-slate-600 bg-slate-800'}`}>
@@ -95,6 +163,29 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
         </div>
       </div>
 
+      {disputedQuestions.length > 0 && (
+        <div className="mb-8 p-5 rounded-2xl border border-amber-500/20 bg-amber-500/5 animate-in slide-in-from-bottom-4 duration-500 fade-in">
+          <div className="flex items-center gap-2 text-amber-400 text-sm font-semibold mb-1">
+            <Scale className="w-4 h-4" />
+            Answer key vs. AI: {disputedQuestions.length} disagreement{disputedQuestions.length === 1 ? '' : 's'}
+          </div>
+          <p className="text-xs text-slate-400 mb-3">
+            These questions are graded against the printed key, but the AI solved them differently. One of the two may be wrong.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {disputedQuestions.map(q => (
+              <button
+                key={q.id}
+                onClick={() => handleSelectQuestion(q.id)}
+                className="px-2.5 py-1 rounded-lg border border-amber-500/30 text-amber-300 text-xs font-mono hover:bg-amber-500/10 transition-colors"
+              >
+                Q{quizData.questions.indexOf(q) + 1}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Analytics Grid (Bento Box Style) */}
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6 mb-12 animate-in slide-in-from-bottom-6 duration-700 fade-in fill-mode-both delay-100">
         
@@ -154,7 +245,12 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
                <span className="text-xs font-mono text-slate-500">MISTAKES</span>
             </div>
             <div>
-               <span className="text-4xl font-bold text-white">{results.incorrect}</span>
+               <div className="flex items-baseline gap-2">
+                  <span className="text-4xl font-bold text-white">{results.incorrect}</span>
+                  {results.negativeMarks > 0 && (
+                    <span className="text-sm font-mono text-rose-400">-{results.negativeMarks} marks</span>
+                  )}
+               </div>
                <div className="w-full bg-slate-800 h-1.5 rounded-full mt-3 overflow-hidden">
                   <div className="bg-rose-500 h-full rounded-full" style={{ width: `${(results.incorrect / results.total) * 100}%` }}></div>
                </div>
@@ -178,6 +274,17 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
         </div>
       </div>
 
+      <SectionScoresPanel results={results} />
+
+      <TimeAnalysisPanel
+        quizData={quizData}
+        questionTimes={questionTimes}
+        results={results}
+        onSelectQuestion={handleSelectQuestion}
+      />
+
+      <TopicAnalysisPanel quizData={quizData} results={results} />
+
       {/* Question List Section */}
       <div className="animate-in slide-in-from-bottom-8 duration-700 fade-in fill-mode-both delay-200">
         <div className="flex items-center justify-between mb-6">
@@ -185,19 +292,35 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
               <Target className="w-5 h-5 text-emerald-400" />
               Detailed Breakdown
            </h3>
-           <div className="text-xs text-slate-500 bg-slate-900 px-3 py-1 rounded-full border border-slate-800">
-              Generated by Gemini 3.0
+           <div className="flex items-center gap-3">
+              <ReportExportButton
+                report={{ quizData, userAnswers, questionTimes, results, timedOut, detailedSolutions, source, diagramImages }}
+              />
+              {retakeChoices && onRetake && <RetakeButton choices={retakeChoices} onRetake={onRetake} />}
+              {onEdit && (
+                <button onClick={onEdit} className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-white transition-colors">
+                   <PenLine className="w-3.5 h-3.5" />
+                   Fix Questions
+                </button>
+              )}
+              <div className="text-xs text-slate-500 bg-slate-900 px-3 py-1 rounded-full border border-slate-800">
+                 Generated by {getAIProvider().name}
+              </div>
            </div>
         </div>
         
         <div className="space-y-4">
           {quizData.questions.map((q, index) => {
             const userAnswer = userAnswers[q.id];
-            const isCorrect = userAnswer === q.correctOptionId;
-            const isSkipped = !userAnswer;
+            const questionResult = results.perQuestion[q.id];
+            const isCorrect = questionResult.outcome === 'correct';
+            const isPartial = questionResult.outcome === 'partial';
+            const isSkipped = questionResult.outcome === 'skipped';
+            const isNumerical = getQuestionType(q) === 'NUMERICAL';
+            const correctOptionIds = getCorrectOptionIds(q);
+            const selectedOptionIds = parseMultiAnswer(userAnswer);
             const isExpanded = expandedQuestion === q.id;
-            const detailedSolution = detailedSolutions[q.id];
-            const isLoading = loadingSolutions[q.id];
+            const questionHints = hints[q.id] ?? [];
 
             // Card Styling Logic
             let borderClass = "border-slate-800 hover:border-slate-700";
@@ -206,6 +329,9 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
             if (isCorrect) {
                 borderClass = "border-emerald-500/20 bg-emerald-500/5 hover:border-emerald-500/30";
                 icon = <CheckCircle className="w-6 h-6 text-emerald-500" />;
+            } else if (isPartial) {
+                borderClass = "border-amber-500/20 bg-amber-500/5 hover:border-amber-500/30";
+                icon = <CheckCircle className="w-6 h-6 text-amber-500" />;
             } else if (!isSkipped) {
                 borderClass = "border-rose-500/20 bg-rose-500/5 hover:border-rose-500/30";
                 icon = <XCircle className="w-6 h-6 text-rose-500" />;
@@ -214,6 +340,7 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
             return (
               <div 
                 key={q.id} 
+                id={`result-question-${q.id}`}
                 className={`rounded-2xl border bg-[#0B1120]/50 backdrop-blur-sm transition-all duration-300 overflow-hidden ${borderClass}`}
               >
                 <div 
@@ -233,8 +360,50 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
                                 >
                                   {q.text}
                                 </ReactMarkdown>
+                                {(q.subject || q.chapter || q.difficulty) && (
+                                  <div className="mt-1 text-xs font-normal font-mono text-slate-500">
+                                    {[q.subject && SUBJECT_LABELS[q.subject], q.chapter, q.difficulty && DIFFICULTY_LABELS[q.difficulty]]
+                                      .filter(Boolean)
+                                      .join(' · ')}
+                                  </div>
+                                )}
                               </div>
                           </div>
+                          <AnswerSourceBadge question={q} />
+                          {questionHints.length > 0 && (
+                             <span
+                                className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider px-2 py-0.5 rounded-full border border-amber-500/30 text-amber-300 flex-shrink-0 mt-1"
+                                title={`${questionHints.length} of ${HINT_LADDER.length} hints used`}
+                             >
+                                <Lightbulb className="w-3 h-3" />
+                                {isCorrect || isPartial ? 'Solved with hints' : `${questionHints.length} hint${questionHints.length === 1 ? '' : 's'}`}
+                             </span>
+                          )}
+                          {questionTimes[q.id] > 0 && (
+                             <span className="hidden sm:flex items-center gap-1 text-xs font-mono text-slate-500 flex-shrink-0 mt-1">
+                                <Clock className="w-3 h-3" />
+                                {formatDuration(questionTimes[q.id])}
+                             </span>
+                          )}
+                          {questionResult.uncounted && (
+                             <span
+                                className="text-[10px] font-mono uppercase tracking-wider text-slate-500 border border-slate-700 rounded px-1.5 py-0.5 flex-shrink-0 mt-0.5"
+                                title="Answered after the section's attempt limit was used up"
+                             >
+                                Not evaluated
+                             </span>
+                          )}
+                          {questionResult.ungraded && (
+                             <span
+                                className="text-[10px] font-mono uppercase tracking-wider text-slate-500 border border-slate-700 rounded px-1.5 py-0.5 flex-shrink-0 mt-0.5"
+                                title="The paper has no answer for this question"
+                             >
+                                Not graded
+                             </span>
+                          )}
+                          <span className={`text-xs font-mono flex-shrink-0 mt-1 ${questionResult.marks > 0 ? 'text-emerald-400' : questionResult.marks < 0 ? 'text-rose-400' : 'text-slate-500'}`}>
+                             {formatMarks(questionResult.marks)}
+                          </span>
                           <div className={`p-1 rounded-lg transition-transform duration-300 ${isExpanded ? 'rotate-180 bg-white/5' : ''}`}>
                              <ChevronDown className="w-4 h-4 text-slate-500" />
                           </div>
@@ -244,35 +413,83 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
 
                 {isExpanded && (
                   <div className="px-5 pb-6 pl-[3.25rem] animate-in slide-in-from-top-2 fade-in duration-200">
+                      {/* Numerical Answer */}
+                      {isNumerical && (
+                          <div className="grid grid-cols-2 gap-3 mb-6 text-sm">
+                              <div className={`p-3 rounded-lg border ${isCorrect ? 'border-emerald-500/40 bg-emerald-500/10 text-emerald-200' : isSkipped ? 'border-slate-800 bg-slate-900/50 text-slate-500' : 'border-rose-500/40 bg-rose-500/10 text-rose-200'}`}>
+                                  <p className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">Your Answer</p>
+                                  <span className="font-mono">{userAnswer || '-'}</span>
+                              </div>
+                              <div className="p-3 rounded-lg border border-emerald-500/40 bg-emerald-500/10 text-emerald-200">
+                                  <p className="text-[10px] uppercase tracking-wider text-slate-500 mb-1">Correct Answer</p>
+                                  <span className="font-mono">{formatCorrectAnswer(q)}</span>
+                              </div>
+                          </div>
+                      )}
+
                       {/* Options */}
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
-                          {q.options.map(opt => {
-                              const isSelected = userAnswer === opt.id;
-                              const isActuallyCorrect = q.correctOptionId === opt.id;
+                      {!isNumerical && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+                              {q.options.map(opt => {
+                                  const isSelected = selectedOptionIds.includes(opt.id);
+                                  const isActuallyCorrect = correctOptionIds.includes(opt.id);
                               
-                              let optStyle = "border-slate-800 bg-slate-900/50 text-slate-500";
-                              if (isActuallyCorrect) optStyle = "border-emerald-500/40 bg-emerald-500/10 text-emerald-200 shadow-[0_0_10px_rgba(16,185,129,0.1)]";
-                              else if (isSelected) optStyle = "border-rose-500/40 bg-rose-500/10 text-rose-200";
-
-                              return (
-                                  <div key={opt.id} className={`p-3 rounded-lg border text-sm flex items-center gap-3 ${optStyle}`}>
-                                      <span className={`w-5 h-5 rounded flex items-center justify-center text-[10px] font-bold border ${isActuallyCorrect ? 'border-emerald-500/50 text-emerald-400' : 'border-slate-700 text-slate-500'}`}>
-                                          {opt.id}
-                                      </span>
-                                      <div className="math-content line-clamp-1">
+                                  let optStyle = "border-slate-800 bg-slate-900/50 text-slate-500";
+                                  if (isActuallyCorrect) optStyle = "border-emerald-500/40 bg-emerald-500/10 text-emerald-200 shadow-[0_0_10px_rgba(16,185,129,0.1)]";
+                                  else if (isSelected) optStyle = "border-rose-500/40 bg-rose-500/10 text-rose-200";
+
+                                  return (
+                                      <div key={opt.id} className={`p-3 rounded-lg border text-sm flex items-center gap-3 ${optStyle}`}>
+                                          <span className={`w-5 h-5 rounded flex items-center justify-center text-[10px] font-bold border ${isActuallyCorrect ? 'border-emerald-500/50 text-emerald-400' : 'border-slate-700 text-slate-500'}`}>
+                                              {opt.id}
+                                          </span>
+                                          <div className="math-content line-clamp-1">
+                                              <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                                  {opt.text}
+                                              </ReactMarkdown>
+                                          </div>
+                                      </div>
+                                  )
+                              })}
+                          </div>
+                      )}
+
+                      {/* Key vs. AI */}
+                      {q.aiAnswer && (
+                          <div className="mb-6 p-3 rounded-lg border border-amber-500/20 bg-amber-500/5 text-xs text-slate-300 flex items-start gap-2">
+                              <BookCheck className="w-4 h-4 text-amber-400 flex-shrink-0" />
+                              <span>
+                                  Printed key: <span className="font-mono text-emerald-300">{formatCorrectAnswer(q)}</span>
+                                  {' · '}AI solved: <span className="font-mono text-amber-300">{formatAiAnswer(q)}</span>
+                                  {q.confidence !== undefined && <span className="text-slate-500"> ({Math.round(q.confidence * 100)}% confident)</span>}
+                                  . Graded against the key. Ask the tutor below if you think the key is wrong.
+                              </span>
+                          </div>
+                      )}
+
+                      {/* Hints used in practice */}
+                      {questionHints.length > 0 && (
+                          <div className="mb-6 p-4 rounded-lg border border-amber-500/20 bg-amber-500/5 space-y-3">
+                              {questionHints.map((hint, hintIndex) => (
+                                  <div key={hintIndex} className="text-sm text-slate-300">
+                                      <p className="text-[10px] font-bold uppercase tracking-wider text-amber-400 mb-1 flex items-center gap-1.5">
+                                          <Lightbulb className="w-3 h-3" />
+                                          Hint {hintIndex + 1} · {HINT_LADDER[hintIndex]?.label}
+                                      </p>
+                                      <div className="math-content">
                                           <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
-                                              {opt.text}
+                                              {hint}
                                           </ReactMarkdown>
                                       </div>
                                   </div>
-                              )
-                          })}
-                      </div>
+                              ))}
+                          </div>
+                      )}
 
                       {/* Solution Area */}
                       <div className="rounded-xl overflow-hidden border border-slate-800 bg-[#020617]">
                            {/* Quick Explanation */}
-                           {!detailedSolution && q.explanation && (
+                           {q.explanation && (
                                <div className="p-4 border-b border-slate-800 bg-slate-900/30">
                                    <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Summary</p>
                                    <div className="text-slate-300 text-sm math-content">
@@ -283,44 +500,13 @@ const ResultSection: React.FC<ResultSectionProps> = ({ quizData, userAnswers, on
                                </div>
                            )}
 
-                           {/* Detailed Solution */}
-                           {detailedSolution && (
-                               <div className="p-6 bg-slate-900/20 relative group/sol animate-in fade-in zoom-in-95 duration-300">
-                                   <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-emerald-500 to-blue-500 opacity-50"></div>
-                                   <div className="flex items-center gap-2 mb-4">
-                                       <Sparkles className="w-4 h-4 text-emerald-400" />
-                                       <span className="text-xs font-bold text-emerald-400 uppercase tracking-widest">AI Solution</span>
-                                   </div>
-                                   <div className="prose prose-invert prose-sm max-w-none prose-headings:text-emerald-300 prose-p:text-slate-300 prose-strong:text-white math-content">
-                                      <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
-                                          {detailedSolution}
-                                      </ReactMarkdown>
-                                   </div>
-                               </div>
-                           )}
-
-                           {/* Action Bar */}
-                           {!detailedSolution && (
-                               <div className="p-2 bg-slate-900/50 flex justify-end">
-                                  <button
-                                      onClick={(e) => handleSolveWithAI(e, q.id, q.text, q.options)}
-                                      disabled={isLoading}
-                                      className="flex items-center gap-2 px-4 py-2 rounded-lg bg-emerald-600/10 hover:bg-emerald-600/20 border border-emerald-500/30 text-emerald-400 text-xs font-bold uppercase tracking-wide transition-all hover:shadow-[0_0_15px_rgba(16,185,129,0.2)]"
-                                  >
-                                      {isLoading ? (
-                                          <>
-                                              <Loader2 className="w-3 h-3 animate-spin" />
-                                              Solving...
-                                          </>
-                                      ) : (
-                                          <>
-                                              <Sparkles className="w-3 h-3" />
-                                              Generate Full Solution
-                                          </>
-                                      )}
-                                  </button>
-                               </div>
-                           )}
+                           <TutorChat
+                               context={buildTutorContext(q, userAnswer)}
+                               isCorrect={isCorrect}
+                               messages={tutorChats[q.id] ?? []}
+                               onMessagesChange={messages => setTutorChats(prev => ({ ...prev, [q.id]: messages }))}
+                               loadImage={() => getQuestionImage(q, source, diagramImages)}
+                           />
                       </div>
                   </div>
                 )}
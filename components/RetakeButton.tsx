@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { RetakeMode } from '../types';
+import { RETAKE_LABELS, RETAKE_MODES, RetakeOptions } from '../services/retakeService';
+import { RotateCcw, Shuffle } from 'lucide-react';
+
+interface RetakeButtonProps {
+  choices: Record<RetakeMode, number[]>; // Question ids each kind of retake would include
+  onRetake: (options: RetakeOptions) => void;
+}
+
+const RetakeButton: React.FC<RetakeButtonProps> = ({ choices, onRetake }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 text-xs font-semibold text-slate-400 hover:text-white transition-colors"
+      >
+        <RotateCcw className="w-3.5 h-3.5" />
+        Retake
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 rounded-xl border border-slate-700 bg-[#0B1120] shadow-2xl p-2 text-sm animate-in fade-in slide-in-from-top-1 duration-150">
+          {RETAKE_MODES.map(mode => (
+            <button
+              key={mode}
+              onClick={() => {
+                setIsOpen(false);
+                onRetake({ mode, shuffleQuestions, shuffleOptions });
+              }}
+              disabled={choices[mode].length === 0}
+              className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <span className="text-slate-200">{RETAKE_LABELS[mode]}</span>
+              <span className="text-xs font-mono text-slate-500">{choices[mode].length} Qs</span>
+            </button>
+          ))}
+
+          <div className="mt-2 pt-2 border-t border-slate-800 px-3 pb-1 space-y-2">
+            <div className="flex items-center gap-1.5 text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+              <Shuffle className="w-3 h-3" />
+              Shuffle
+            </div>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={shuffleQuestions}
+                onChange={e => setShuffleQuestions(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Question order
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={shuffleOptions}
+                onChange={e => setShuffleOptions(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Option order
+            </label>
+            {shuffleOptions && (
+              <p className="text-[10px] text-slate-500 leading-relaxed">
+                Options are relabelled A, B, C... in their new order. Printed solutions may still use the original letters.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RetakeButton;
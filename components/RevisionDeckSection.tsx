@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { deleteRevisionCard, listPapers, listRevisionCards } from '../services/storageService';
+import { DeckEntry, MAX_REVIEW_SIZE, ReviewSession, buildReviewSession, isDue, isMastered } from '../services/revisionService';
+import { Layers, ArrowLeft, Loader2, PlayCircle, Trash2, CalendarClock, Brain } from 'lucide-react';
+
+interface RevisionDeckSectionProps {
+  onStartReview: (session: ReviewSession) => void;
+  onBack: () => void;
+}
+
+const formatDue = (timestamp: number) => {
+  const days = Math.ceil((timestamp - Date.now()) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'Due now';
+  if (days === 1) return 'Tomorrow';
+  return days < 30 ? `In ${days} days` : new Date(timestamp).toLocaleDateString(undefined, { dateStyle: 'medium' });
+};
+
+// Plain text preview of a question, without markdown or LaTeX delimiters
+const preview = (text: string) => text.replace(/[$*_#`]/g, '').replace(/\s+/g, ' ').trim();
+
+const RevisionDeckSection: React.FC<RevisionDeckSectionProps> = ({ onStartReview, onBack }) => {
+  const [entries, setEntries] = useState<DeckEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [cards, papers] = await Promise.all([listRevisionCards(), listPapers()]);
+        const papersById = new Map(papers.map(p => [p.id, p]));
+        const loaded: DeckEntry[] = [];
+        cards.forEach(card => {
+          const paper = papersById.get(card.paperId);
+          const question = paper?.quizData.questions.find(q => q.id === card.questionId);
+          // The question was deleted in the editor since the card was added
+          if (paper && question) loaded.push({ card, paper, question });
+          else deleteRevisionCard(card.id).catch(err => console.error("Failed to remove stale card", err));
+        });
+        setEntries(loaded);
+      } catch (err) {
+        console.error("Failed to load revision deck", err);
+        setError("Could not load your revision deck from this browser.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const dueEntries = entries.filter(e => isDue(e.card));
+  const masteredCount = entries.filter(e => isMastered(e.card)).length;
+  const nextDue = entries.find(e => !isDue(e.card));
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      onStartReview(await buildReviewSession(dueEntries));
+    } catch (err) {
+      console.error("Failed to start review", err);
+      setError("Could not prepare the review session. Please try again.");
+      setIsStarting(false);
+    }
+  };
+
+  const handleRemove = async (cardId: string) => {
+    try {
+      await deleteRevisionCard(cardId);
+      setEntries(prev => prev.filter(e => e.card.id !== cardId));
+    } catch (err) {
+      console.error("Failed to remove card", err);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto px-6 py-8 pb-32">
+      <div className="mb-10 flex flex-col md:flex-row md:items-end justify-between gap-6 animate-in slide-in-from-bottom-4 duration-500 fade-in">
+        <div>
+          <div className="flex items-center gap-2 text-emerald-400 font-mono text-xs uppercase tracking-widest mb-2">
+            <Layers className="w-4 h-4" />
+            <span>Revision Deck</span>
+          </div>
+          <h2 className="text-3xl md:text-4xl font-bold text-white tracking-tight">Revise Your Mistakes</h2>
+        </div>
+        <button onClick={onBack} className="flex items-center gap-2 text-sm font-medium text-slate-400 hover:text-white transition-colors">
+          <ArrowLeft className="w-4 h-4" />
+          Scan New
+        </button>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-2 text-slate-400 py-20">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading deck...
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">{error}</div>
+      )}
+
+      {!isLoading && entries.length === 0 && !error && (
+        <div className="flex flex-col items-center justify-center gap-3 text-slate-500 py-20">
+          <Brain className="w-10 h-10 opacity-50" />
+          <p className="text-sm">Your deck is empty. Questions you get wrong or skip in a test are added here automatically.</p>
+        </div>
+      )}
+
+      {!isLoading && entries.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-6 items-center mb-8 rounded-3xl border border-white/5 bg-[#0B1120] p-6 shadow-xl">
+            <div className="grid grid-cols-3 gap-4 font-mono">
+              <div>
+                <div className="text-xs text-slate-500 uppercase mb-1">Due Now</div>
+                <div className="text-3xl font-bold text-emerald-400">{dueEntries.length}</div>
+              </div>
+              <div>
+                <div className="text-xs text-slate-500 uppercase mb-1">In Deck</div>
+                <div className="text-3xl font-bold text-white">{entries.length}</div>
+              </div>
+              <div>
+                <div className="text-xs text-slate-500 uppercase mb-1">Mastered</div>
+                <div className="text-3xl font-bold text-white">{masteredCount}</div>
+              </div>
+            </div>
+            <div className="flex flex-col items-stretch md:items-end gap-2">
+              <button
+                onClick={handleStart}
+                disabled={dueEntries.length === 0 || isStarting}
+                className="px-6 py-3 rounded-xl bg-white text-slate-950 font-semibold text-sm hover:bg-emerald-400 hover:text-emerald-950 transition-all flex items-center justify-center gap-2 disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-slate-950"
+              >
+                {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlayCircle className="w-4 h-4" />}
+                Start Review{dueEntries.length > 0 && ` (${Math.min(dueEntries.length, MAX_REVIEW_SIZE)})`}
+              </button>
+              {dueEntries.length === 0 && nextDue && (
+                <p className="text-xs text-slate-500 font-mono">Next review {formatDue(nextDue.card.dueAt).toLowerCase()}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="rounded-3xl border border-white/5 bg-[#0B1120] shadow-xl divide-y divide-slate-800">
+            {entries.map(({ card, paper, question }) => (
+              <div key={card.id} className="p-4 flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-slate-200 line-clamp-2">{preview(question.text)}</p>
+                  <p className="text-xs text-slate-500 font-mono mt-1 truncate">
+                    {paper.quizData.title} · Q{paper.quizData.questions.indexOf(question) + 1}
+                    {card.lapses > 0 && ` · missed ${card.lapses + 1}×`}
+                  </p>
+                </div>
+                <span className={`flex items-center gap-1 text-xs font-mono flex-shrink-0 ${isDue(card) ? 'text-emerald-400' : 'text-slate-500'}`}>
+                  <CalendarClock className="w-3.5 h-3.5" />
+                  {formatDue(card.dueAt)}
+                </span>
+                <button
+                  onClick={() => handleRemove(card.id)}
+                  className="p-1.5 rounded-lg text-slate-600 hover:text-rose-400 transition-colors flex-shrink-0"
+                  title="Remove from deck"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RevisionDeckSection;
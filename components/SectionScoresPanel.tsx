@@ -0,0 +1,53 @@
+import React from 'react';
+import { QuizScore } from '../services/scoringService';
+import { getSectionName } from '../services/sectionService';
+import { Layers } from 'lucide-react';
+
+interface SectionScoresPanelProps {
+  results: QuizScore;
+}
+
+const SectionScoresPanel: React.FC<SectionScoresPanelProps> = ({ results }) => {
+  if (results.sections.length === 0) return null;
+
+  return (
+    <div className="mb-12 animate-in slide-in-from-bottom-8 duration-700 fade-in fill-mode-both delay-150">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-6">
+        <Layers className="w-5 h-5 text-emerald-400" />
+        Section Scores
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {results.sections.map(sectionScore => {
+          const { section, total, attempted, correct, incorrect, score, maxMarks } = sectionScore;
+          const percentage = maxMarks > 0 ? Math.round((Math.max(0, score) / maxMarks) * 100) : 0;
+          const allowed = section?.attemptLimit ?? total;
+          return (
+            <div key={section?.id ?? 'general'} className="bg-[#0B1120] border border-white/5 rounded-3xl p-5 shadow-xl">
+              <div className="text-xs font-mono text-slate-500 uppercase mb-2 truncate" title={getSectionName(section)}>
+                {getSectionName(section)}
+              </div>
+              <div className="text-3xl font-bold font-mono text-white">
+                {score}<span className="text-base text-slate-500">/{maxMarks}</span>
+              </div>
+              <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden my-3">
+                <div className="h-full bg-emerald-500" style={{ width: `${percentage}%` }}></div>
+              </div>
+              <div className="flex justify-between text-xs font-mono text-slate-500">
+                <span>{attempted}/{allowed} attempted</span>
+                <span>
+                  <span className="text-emerald-400">{correct}✓</span> <span className="text-rose-400">{incorrect}✗</span>
+                </span>
+              </div>
+              {section?.attemptLimit && (
+                <p className="mt-2 text-[10px] text-slate-600 font-mono uppercase">Any {section.attemptLimit} of {total}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SectionScoresPanel;
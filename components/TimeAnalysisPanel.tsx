@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { QuestionTimes, QuizData } from '../types';
+import { QuestionOutcome, QuizScore } from '../services/scoringService';
+import { Clock, Hourglass, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, Cell, XAxis, YAxis, ResponsiveContainer, Tooltip as ReTooltip } from 'recharts';
+
+interface TimeAnalysisPanelProps {
+  quizData: QuizData;
+  questionTimes: QuestionTimes;
+  results: QuizScore;
+  onSelectQuestion: (questionId: number) => void;
+}
+
+// Anything this many times slower than the average counts as "spent long"
+const SLOW_FACTOR = 1.5;
+const LIST_LIMIT = 5;
+
+const OUTCOME_COLORS: Record<QuestionOutcome, string> = {
+  correct: '#10b981',
+  partial: '#f59e0b',
+  incorrect: '#f43f5e',
+  skipped: '#64748b',
+};
+
+export const formatDuration = (secs: number) => {
+  const m = Math.floor(secs / 60);
+  const s = secs % 60;
+  return m > 0 ? `${m}m ${s.toString().padStart(2, '0')}s` : `${s}s`;
+};
+
+const TimeAnalysisPanel: React.FC<TimeAnalysisPanelProps> = ({ quizData, questionTimes, results, onSelectQuestion }) => {
+  const analysis = useMemo(() => {
+    const rows = quizData.questions.map((q, index) => ({
+      id: q.id,
+      label: `Q${index + 1}`,
+      seconds: questionTimes[q.id] || 0,
+      outcome: results.perQuestion[q.id].outcome,
+    }));
+
+    const totalSeconds = rows.reduce((sum, r) => sum + r.seconds, 0);
+    const average = rows.length > 0 ? totalSeconds / rows.length : 0;
+
+    const averageFor = (outcome: QuestionOutcome) => {
+      const matching = rows.filter(r => r.outcome === outcome);
+      return matching.length > 0 ? Math.round(matching.reduce((sum, r) => sum + r.seconds, 0) / matching.length) : 0;
+    };
+
+    const slowest = [...rows].sort((a, b) => b.seconds - a.seconds).filter(r => r.seconds > 0).slice(0, LIST_LIMIT);
+    const costlyMistakes = rows
+      .filter(r => (r.outcome === 'incorrect' || r.outcome === 'partial') && r.seconds >= average * SLOW_FACTOR && r.seconds > 0)
+      .sort((a, b) => b.seconds - a.seconds);
+
+    return {
+      rows,
+      totalSeconds,
+      average: Math.round(average),
+      averageCorrect: averageFor('correct'),
+      averageIncorrect: averageFor('incorrect'),
+      slowest,
+      costlyMistakes,
+    };
+  }, [quizData, questionTimes, results]);
+
+  if (analysis.totalSeconds === 0) return null;
+
+  return (
+    <div className="mb-12 animate-in slide-in-from-bottom-8 duration-700 fade-in fill-mode-both delay-150">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-6">
+        <Clock className="w-5 h-5 text-emerald-400" />
+        Time Analysis
+      </h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Time per question */}
+        <div className="lg:col-span-2 bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl">
+          <div className="flex flex-wrap gap-6 mb-4 text-xs font-mono text-slate-500">
+            <span>AVG <span className="text-slate-200">{formatDuration(analysis.average)}</span></span>
+            <span>AVG CORRECT <span className="text-emerald-400">{formatDuration(analysis.averageCorrect)}</span></span>
+            <span>AVG WRONG <span className="text-rose-400">{formatDuration(analysis.averageIncorrect)}</span></span>
+          </div>
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analysis.rows}>
+                <XAxis dataKey="label" tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} interval="preserveStartEnd" />
+                <YAxis tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} width={32} />
+                <ReTooltip
+                  cursor={{ fill: 'rgba(255,255,255,0.03)' }}
+                  contentStyle={{ background: '#020617', border: '1px solid #1e293b', borderRadius: 8, fontSize: 12 }}
+                  formatter={(value: number) => [formatDuration(value), 'Time']}
+                />
+                <Bar dataKey="seconds" radius={[4, 4, 0, 0]} onClick={(bar) => bar.payload && onSelectQuestion(bar.payload.id)}>
+                  {analysis.rows.map(row => (
+                    <Cell key={row.id} fill={OUTCOME_COLORS[row.outcome]} className="cursor-pointer" />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-6">
+          {/* Slowest questions */}
+          <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl">
+            <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-4">
+              <Hourglass className="w-4 h-4" />
+              Slowest Questions
+            </div>
+            <div className="space-y-2">
+              {analysis.slowest.map(row => (
+                <button key={row.id} onClick={() => onSelectQuestion(row.id)} className="w-full flex items-center justify-between text-sm hover:bg-white/5 rounded-lg px-2 py-1 transition-colors">
+                  <span className="flex items-center gap-2 text-slate-300">
+                    <span className="w-2 h-2 rounded-full" style={{ background: OUTCOME_COLORS[row.outcome] }}></span>
+                    {row.label}
+                  </span>
+                  <span className="font-mono text-slate-400">{formatDuration(row.seconds)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Long and still wrong */}
+          <div className="bg-[#0B1120] border border-rose-500/10 rounded-3xl p-6 shadow-xl">
+            <div className="flex items-center gap-2 text-xs font-mono text-rose-400/80 uppercase mb-4">
+              <AlertTriangle className="w-4 h-4" />
+              Time Sinks
+            </div>
+            {analysis.costlyMistakes.length === 0 ? (
+              <p className="text-xs text-slate-500">No slow wrong answers. Time was well spent.</p>
+            ) : (
+              <div className="space-y-2">
+                {analysis.costlyMistakes.map(row => (
+                  <button key={row.id} onClick={() => onSelectQuestion(row.id)} className="w-full flex items-center justify-between text-sm hover:bg-white/5 rounded-lg px-2 py-1 transition-colors">
+                    <span className="text-rose-300">{row.label}</span>
+                    <span className="font-mono text-slate-400">{formatDuration(row.seconds)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeAnalysisPanel;
@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { QuizData } from '../types';
+import { QuizScore } from '../services/scoringService';
+import { SUBJECT_LABELS, TopicStats, getTopicBreakdown, hasTopicTags } from '../services/topicService';
+import { BookOpen, Target } from 'lucide-react';
+
+interface TopicAnalysisPanelProps {
+  quizData: QuizData;
+  results: QuizScore;
+}
+
+const CHAPTER_LIMIT = 8;
+
+const accuracyColor = (stats: TopicStats) => {
+  if (stats.attempted === 0) return 'text-slate-500';
+  if (stats.accuracy >= 75) return 'text-emerald-400';
+  if (stats.accuracy >= 50) return 'text-amber-400';
+  return 'text-rose-400';
+};
+
+const accuracyBar = (stats: TopicStats) => {
+  if (stats.accuracy >= 75) return 'bg-emerald-500';
+  if (stats.accuracy >= 50) return 'bg-amber-500';
+  return 'bg-rose-500';
+};
+
+const TopicAnalysisPanel: React.FC<TopicAnalysisPanelProps> = ({ quizData, results }) => {
+  const breakdown = useMemo(() => getTopicBreakdown(quizData, results), [quizData, results]);
+
+  if (!hasTopicTags(quizData)) return null;
+
+  const chapters = breakdown.chapters.slice(0, CHAPTER_LIMIT);
+
+  return (
+    <div className="mb-12 animate-in slide-in-from-bottom-8 duration-700 fade-in fill-mode-both delay-150">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2 mb-6">
+        <BookOpen className="w-5 h-5 text-emerald-400" />
+        Topic Analysis
+      </h3>
+
+      {/* Per subject */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {breakdown.subjects.map(stats => (
+          <div key={stats.key} className="bg-[#0B1120] border border-white/5 rounded-3xl p-5 shadow-xl">
+            <div className="text-xs font-mono text-slate-500 uppercase mb-2">{stats.label}</div>
+            <div className={`text-3xl font-bold font-mono ${accuracyColor(stats)}`}>
+              {stats.attempted > 0 ? `${stats.accuracy}%` : '-'}
+            </div>
+            <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden my-3">
+              <div className={`h-full ${accuracyBar(stats)}`} style={{ width: `${stats.accuracy}%` }}></div>
+            </div>
+            <div className="flex justify-between text-xs font-mono text-slate-500">
+              <span>{stats.attempted}/{stats.total} tried</span>
+              {stats.marksLost > 0 && <span className="text-rose-400">-{stats.marksLost}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Per chapter, worst first */}
+      <div className="bg-[#0B1120] border border-white/5 rounded-3xl p-6 shadow-xl overflow-x-auto">
+        <div className="flex items-center gap-2 text-xs font-mono text-slate-500 uppercase mb-4">
+          <Target className="w-4 h-4" />
+          Revise First
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-mono text-slate-500 uppercase">
+              <th className="pb-3 font-normal">Chapter</th>
+              <th className="pb-3 font-normal text-right">Accuracy</th>
+              <th className="pb-3 font-normal text-right">Attempted</th>
+              <th className="pb-3 font-normal text-right">Marks Lost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5">
+            {chapters.map(stats => (
+              <tr key={stats.key}>
+                <td className="py-2 pr-4">
+                  <span className="text-slate-200">{stats.label}</span>
+                  {stats.subject && <span className="ml-2 text-xs text-slate-500">{SUBJECT_LABELS[stats.subject]}</span>}
+                </td>
+                <td className={`py-2 text-right font-mono ${accuracyColor(stats)}`}>
+                  {stats.attempted > 0 ? `${stats.accuracy}%` : '-'}
+                </td>
+                <td className="py-2 text-right font-mono text-slate-400">{stats.attempted}/{stats.total}</td>
+                <td className="py-2 text-right font-mono text-rose-400">{stats.marksLost > 0 ? `-${stats.marksLost}` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {breakdown.chapters.length > CHAPTER_LIMIT && (
+          <p className="text-xs text-slate-500 mt-3">
+            Showing the {CHAPTER_LIMIT} weakest of {breakdown.chapters.length} chapters.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TopicAnalysisPanel;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QuestionImage, TutorContext, TutorMessage } from '../types';
+import { isAbortError, streamTutorReply } from '../services/aiService';
+import { MAX_TUTOR_MESSAGES, getTutorPrompts } from '../services/tutorService';
+import { Sparkles, Loader2, Send, AlertCircle, RotateCcw } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface TutorChatProps {
+  context: TutorContext;
+  isCorrect: boolean;
+  messages: TutorMessage[]; // Kept by the parent so the conversation survives collapsing the question
+  onMessagesChange: (messages: TutorMessage[]) => void;
+  loadImage: () => Promise<QuestionImage | undefined>;
+}
+
+const TutorReply: React.FC<{ text: string }> = ({ text }) => (
+  <div className="prose prose-invert prose-sm max-w-none prose-headings:text-emerald-300 prose-p:text-slate-300 prose-strong:text-white math-content">
+    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+// Streams replies from the AI tutor about one question; follow-ups carry the whole conversation
+const TutorChat: React.FC<TutorChatProps> = ({ context, isCorrect, messages, onMessagesChange, loadImage }) => {
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const imageRef = useRef<Promise<QuestionImage | undefined> | null>(null);
+
+  // Collapsing the question unmounts the chat; stop paying for a reply nobody will see
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const requestReply = async (conversation: TutorMessage[]) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setStreamingText('');
+    setIsStreaming(true);
+
+    try {
+      imageRef.current ??= loadImage();
+      const image = await imageRef.current;
+      const reply = await streamTutorReply({ context: { ...context, image }, messages: conversation }, setStreamingText, controller.signal);
+      onMessagesChange([...conversation, { role: 'model', text: reply }]);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      console.error("Tutor request failed", err);
+      setError(err?.message || "The tutor could not reply.");
+    } finally {
+      if (!controller.signal.aborted) {
+        setIsStreaming(false);
+        setStreamingText('');
+      }
+    }
+  };
+
+  const send = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isStreaming) return;
+    const conversation: TutorMessage[] = [...messages, { role: 'user', text: trimmed }];
+    setInput('');
+    onMessagesChange(conversation);
+    requestReply(conversation);
+  };
+
+  // A question left without a reply, because it failed or the chat was closed mid-stream
+  const isUnanswered = !isStreaming && messages.length > 0 && messages[messages.length - 1].role === 'user';
+  const isFull = messages.length >= MAX_TUTOR_MESSAGES - 1;
+  const prompts = getTutorPrompts(context, messages, isCorrect);
+
+  return (
+    <div className="p-4 bg-slate-900/20 relative">
+      <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-emerald-500 to-blue-500 opacity-50"></div>
+      <div className="flex items-center gap-2 mb-4">
+        <Sparkles className="w-4 h-4 text-emerald-400" />
+        <span className="text-xs font-bold text-emerald-400 uppercase tracking-widest">AI Tutor</span>
+      </div>
+
+      {(messages.length > 0 || isStreaming) && (
+        <div className="space-y-4 mb-4">
+          {messages.map((message, index) => message.role === 'user' ? (
+            <div key={index} className="flex justify-end">
+              <p className="max-w-[85%] px-3 py-2 rounded-xl rounded-br-sm bg-emerald-500/10 border border-emerald-500/20 text-sm text-emerald-100 whitespace-pre-wrap">
+                {message.text}
+              </p>
+            </div>
+          ) : (
+            <TutorReply key={index} text={message.text} />
+          ))}
+          {isStreaming && (
+            streamingText
+              ? <TutorReply text={streamingText} />
+              : (
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  Thinking...
+                </div>
+              )
+          )}
+        </div>
+      )}
+
+      {isUnanswered && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center gap-3 text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <p className="flex-1 text-sm">{error ?? "The reply was interrupted."}</p>
+          <button
+            onClick={() => requestReply(messages)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-red-500/30 text-xs font-semibold hover:bg-red-500/10 transition-colors flex-shrink-0"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Retry
+          </button>
+        </div>
+      )}
+
+      {isFull ? (
+        <p className="text-xs text-slate-500">This conversation has reached its length limit.</p>
+      ) : !isUnanswered && (
+        <>
+          {prompts.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {prompts.map(prompt => (
+                <button
+                  key={prompt.label}
+                  onClick={() => send(prompt.text)}
+                  disabled={isStreaming}
+                  className="px-3 py-1.5 rounded-lg bg-emerald-600/10 hover:bg-emerald-600/20 border border-emerald-500/30 text-emerald-400 text-xs font-semibold transition-colors disabled:opacity-40"
+                >
+                  {prompt.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              send(input);
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder={messages.length > 0 ? 'Ask a follow-up, e.g. "why not option B?"' : 'Ask the tutor about this question'}
+              className="flex-1 min-w-0 bg-slate-900/50 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500/50"
+            />
+            <button
+              type="submit"
+              disabled={isStreaming || !input.trim()}
+              className="p-2 rounded-lg bg-emerald-600/10 hover:bg-emerald-600/20 border border-emerald-500/30 text-emerald-400 transition-colors disabled:opacity-40"
+              title="Send"
+            >
+              {isStreaming ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TutorChat;
@@ -1,72 +1,54 @@
-import React, { useCallback, useState, useLayoutEffect, useRef, useEffect } from 'react';
-import { Upload, FileText, AlertCircle, ScanLine, Sparkles, ArrowRight, Loader2 } from 'lucide-react';
+import React, { useCallback, useState, useLayoutEffect, useRef } from 'react';
+import { Upload, FileText, FileJson, AlertCircle, ScanLine, Sparkles, ArrowRight, Loader2, X } from 'lucide-react';
 import gsap from 'gsap';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { ExtractionProgress, InlineImage, PaperSource } from '../types';
+import { isHeicImage, isPageImage, readPageImages } from '../services/imageService';
+import PageOrderReview from './PageOrderReview';
 
 interface UploadSectionProps {
-  onFileSelect: (base64: string) => void;
+  onFileSelect: (source: PaperSource) => void;
+  onImport?: (file: File) => void; // Quiz bundle (.json) exported from Rankify
   isProcessing: boolean;
+  progress?: ExtractionProgress | null;
+  onCancel?: () => void;
   error?: string | null;
 }
 
-const STATUS_MESSAGES = [
-  "Uploading document...",
-  "Scanning PDF layout...",
-  "Identifying questions & diagrams...",
-  "Analyzing mathematical content...",
-  "Solving problems...",
-  "Generating explanations...",
-  "Finalizing quiz structure..."
-];
-
-const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessing, error }) => {
-  const [dragActive, setDragActive] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [statusMessage, setStatusMessage] = useState(STATUS_MESSAGES[0]);
-  const containerRef = useRef<HTMLDivElement>(null);
-  
-  // Progress Simulation Logic
-  useEffect(() => {
-    if (isProcessing) {
-      setUploadProgress(0);
-      setStatusMessage(STATUS_MESSAGES[0]);
-
-      const interval = setInterval(() => {
-        setUploadProgress((prev) => {
-          // Asymptotic progress: slows down as it gets higher
-          // This prevents the "stuck at 90%" feeling by keeping it moving slowly
-          // Target is 95% until complete
-          if (prev >= 95) return prev;
-          
-          const remaining = 95 - prev;
-          // Jump size depends on remaining distance, making it slower over time
-          // Randomness adds realism
-          const jump = Math.max(0.2, Math.random() * (remaining / 15)); 
-          
-          return Math.min(95, prev + jump);
-        });
-      }, 600); // Slower update interval (600ms)
-
-      return () => clearInterval(interval);
-    } else {
-      setUploadProgress(0);
-    }
-  }, [isProcessing]);
+// Preparing and merging are quick, so extraction batches get most of the ring
+const getProgressPercent = (progress: ExtractionProgress | null | undefined) => {
+  if (!progress) return 0;
+  switch (progress.stage) {
+    case 'preparing': return 2;
+    case 'extracting': return 5 + (90 * progress.completedBatches) / Math.max(1, progress.totalBatches);
+    case 'merging': return 97;
+    case 'done': return 100;
+  }
+};
 
-  // Update status message based on progress thresholds
-  useEffect(() => {
-    if (!isProcessing) return;
+const getStatusMessage = (progress: ExtractionProgress | null | undefined) => {
+  if (!progress || progress.stage === 'preparing') return "Reading pages...";
+  if (progress.stage === 'merging') return "Merging & renumbering questions...";
+  if (progress.stage === 'done') return `Extracted ${progress.questionsFound} questions`;
 
-    let messageIndex = 0;
-    if (uploadProgress < 15) messageIndex = 0;
-    else if (uploadProgress < 30) messageIndex = 1;
-    else if (uploadProgress < 45) messageIndex = 2;
-    else if (uploadProgress < 60) messageIndex = 3;
-    else if (uploadProgress < 80) messageIndex = 4;
-    else if (uploadProgress < 90) messageIndex = 5;
-    else messageIndex = 6;
+  const pages = progress.currentPage
+    ? `Page ${progress.currentPage}`
+    : progress.currentPages ? `Pages ${progress.currentPages[0]}-${progress.currentPages[1]}` : "Extracting";
+  const batches = progress.totalBatches > 1 ? ` · batch ${Math.min(progress.completedBatches + 1, progress.totalBatches)}/${progress.totalBatches}` : '';
+  return `${pages}${batches} · ${progress.questionsFound} found`;
+};
 
-    setStatusMessage(STATUS_MESSAGES[messageIndex]);
-  }, [uploadProgress, isProcessing]);
+const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, onImport, isProcessing, progress, onCancel, error }) => {
+  const [dragActive, setDragActive] = useState(false);
+  const [isReadingImages, setIsReadingImages] = useState(false);
+  // Photographed pages wait here until their order has been checked
+  const [pendingPages, setPendingPages] = useState<InlineImage[] | null>(null);
+  const isBusy = isProcessing || isReadingImages;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const uploadProgress = getProgressPercent(progress);
+  const statusMessage = getStatusMessage(progress);
 
   // GSAP Intro Animations
   useLayoutEffect(() => {
@@ -102,17 +84,39 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
     }
   }, []);
 
-  const processFile = (file: File) => {
-    if (file && file.type === "application/pdf") {
+  const isBundle = (file: File) => file.name.toLowerCase().endsWith('.json') || file.type === "application/json";
+
+  const processImages = async (files: File[]) => {
+    setIsReadingImages(true);
+    try {
+      setPendingPages(await readPageImages(files));
+    } catch (err: any) {
+      console.error("Failed to read page images", err);
+      alert(err?.message || "Could not read the images.");
+    } finally {
+      setIsReadingImages(false);
+    }
+  };
+
+  // One PDF or bundle, or any number of page photos
+  const processFiles = (files: File[]) => {
+    const [file] = files;
+    if (files.length === 1 && onImport && isBundle(file)) {
+      onImport(file);
+    } else if (files.length === 1 && file.type === "application/pdf") {
       const reader = new FileReader();
       reader.onload = (e) => {
         const result = e.target?.result as string;
         const base64 = result.split(',')[1];
-        onFileSelect(base64);
+        onFileSelect({ pdf: base64 });
       };
       reader.readAsDataURL(file);
+    } else if (files.some(isHeicImage)) {
+      alert("HEIC photos can't be read in the browser. Convert them to JPEG first, e.g. by sharing them from your phone as JPEG.");
+    } else if (files.length > 0 && files.every(isPageImage)) {
+      processImages(files);
     } else {
-      alert("Please upload a valid PDF file.");
+      alert("Please upload one PDF, or photos of the paper's pages as JPEG, PNG or WebP images.");
     }
   };
 
@@ -120,16 +124,23 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      processFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files?.length) {
+      processFiles([...e.dataTransfer.files]);
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, onImport]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      processFile(e.target.files[0]);
+    if (e.target.files?.length) {
+      processFiles([...e.target.files]);
     }
+    e.target.value = '';
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && onImport) onImport(file);
+    e.target.value = '';
   };
 
   return (
@@ -147,13 +158,24 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
         </h1>
         
         <p className="hero-text text-slate-400 text-lg font-light leading-relaxed">
-          Transform static PDF mock tests into interactive quizzes. 
+          Transform PDF or photographed mock tests into interactive quizzes. 
           <br className="hidden md:block"/>
           Powered by next-gen multimodal AI for instant diagrams & solutions.
         </p>
       </div>
 
-      {/* Upload Card */}
+      {pendingPages ? (
+        <PageOrderReview
+          pages={pendingPages}
+          onChange={setPendingPages}
+          onConfirm={() => {
+            onFileSelect({ images: pendingPages });
+            setPendingPages(null);
+          }}
+          onCancel={() => setPendingPages(null)}
+        />
+      ) : (
+      /* Upload Card */
       <div className="relative w-full max-w-xl group perspective-1000">
         {/* Glow Effect behind card */}
         <div className={`absolute -inset-1 bg-gradient-to-r from-emerald-500 to-blue-500 rounded-[2rem] blur opacity-20 transition duration-1000 group-hover:opacity-40 ${isProcessing ? 'animate-pulse opacity-40' : ''}`}></div>
@@ -164,7 +186,7 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
                 ? 'border-emerald-500/50 shadow-[0_0_50px_rgba(16,185,129,0.15)] scale-[1.01]' 
                 : 'border-white/10 hover:border-white/20 shadow-2xl shadow-black/50'
             }
-            ${isProcessing ? 'pointer-events-none' : 'cursor-pointer'}
+            ${isBusy ? 'pointer-events-none' : 'cursor-pointer'}
             `}
             onDragEnter={handleDrag}
             onDragLeave={handleDrag}
@@ -173,10 +195,11 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
         >
             <input
                 type="file"
-                accept=".pdf"
+                accept=".pdf,image/jpeg,image/png,image/webp,.heic,.heif"
+                multiple
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
                 onChange={handleChange}
-                disabled={isProcessing}
+                disabled={isBusy}
             />
 
             <div className="px-8 py-16 md:px-12 md:py-20 flex flex-col items-center text-center">
@@ -220,6 +243,32 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
                               {statusMessage}
                             </p>
                         </div>
+
+                        {/* Live Preview */}
+                        {progress?.previewQuestions && progress.previewQuestions.length > 0 && (
+                            <div className="mt-6 w-full space-y-2 text-left animate-in fade-in duration-500">
+                                {progress.previewQuestions.map((q, index) => (
+                                    <div key={index} className="flex gap-2 p-3 rounded-xl border border-slate-800 bg-slate-900/50 text-xs text-slate-300">
+                                        <span className="font-mono text-slate-500">#{index + 1}</span>
+                                        <div className="math-content line-clamp-2 min-w-0">
+                                            <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                                                {q.text}
+                                            </ReactMarkdown>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {onCancel && (
+                            <button
+                                onClick={onCancel}
+                                className="mt-6 pointer-events-auto relative z-30 flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 text-xs font-semibold uppercase tracking-wide transition-colors"
+                            >
+                                <X className="w-3.5 h-3.5" />
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 ) : (
                     <div className="flex flex-col items-center animate-in fade-in slide-in-from-bottom-4 duration-700">
@@ -228,12 +277,12 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
                         </div>
                         
                         <h3 className="text-2xl font-semibold text-white mb-3">
-                            {dragActive ? "Drop PDF to Scan" : "Upload Mock Test"}
+                            {isReadingImages ? "Reading Images..." : dragActive ? "Drop to Scan" : "Upload Mock Test"}
                         </h3>
                         
                         <p className="text-slate-400 text-sm max-w-xs mx-auto mb-8 leading-relaxed">
-                            Drag & drop your PDF here, or click to browse. 
-                            <span className="block mt-1 text-slate-500 text-xs">Supports handwritten notes & diagrams.</span>
+                            Drag & drop your PDF, or photos of its pages, here, or click to browse.
+                            <span className="block mt-1 text-slate-500 text-xs">You can check the order of photos before scanning. Supports handwritten notes & diagrams.</span>
                         </p>
 
                         <button className="px-6 py-3 rounded-xl bg-white text-slate-950 font-semibold text-sm hover:bg-emerald-400 hover:text-emerald-950 transition-all flex items-center gap-2 group/btn shadow-lg shadow-white/5">
@@ -250,6 +299,15 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onFileSelect, isProcessin
             )}
         </div>
       </div>
+      )}
+
+      {onImport && !isProcessing && !pendingPages && (
+        <label className="mt-6 flex items-center gap-2 text-sm text-slate-400 hover:text-white transition-colors cursor-pointer">
+          <FileJson className="w-4 h-4 text-emerald-500" />
+          Have a quiz bundle? <span className="underline underline-offset-4">Import .json</span>
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleImportChange} />
+        </label>
+      )}
 
       {/* Feature Badges */}
       <div className="mt-12 flex flex-wrap justify-center gap-4">
@@ -0,0 +1,6 @@
+// Imported first by index.ts so .env is loaded before any other module reads process.env
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env file: rely on the real environment
+}
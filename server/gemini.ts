@@ -0,0 +1,355 @@
+import { GoogleGenAI, Type, type Content, type Part } from "@google/genai";
+import type { AnswerKeyEntry, AnswerKeyRequest, ExtractPage, ExtractRequest, HintLevel, HintRequest, QuestionImage, TutorContext, TutorRequest } from "../types.ts";
+
+// Prompts, schemas and the key stay on the server; the browser only sends the document
+
+const DEFAULT_MODEL = "gemini-3-pro-preview";
+const EXTRACTION_MODEL = process.env.AI_EXTRACTION_MODEL || DEFAULT_MODEL;
+const SOLUTION_MODEL = process.env.AI_SOLUTION_MODEL || DEFAULT_MODEL;
+
+// Schema for structured output
+const quizResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: "A short, descriptive title for the mock test extracted from the document header.",
+    },
+    topic: {
+      type: Type.STRING,
+      description: "The main subject or topic (e.g., Physics - Rotational Motion, NEET Full Mock).",
+    },
+    sections: {
+      type: Type.ARRAY,
+      description: "The sections the paper is divided into, in printed order. Empty if the paper has no sections.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "The section heading as printed, e.g. \"Physics Section B\"." },
+          instructions: { type: Type.STRING, description: "The section's printed instructions, if any." },
+          attemptLimit: { type: Type.INTEGER, description: "For \"attempt any N\" sections, N. Omit when every question must be answered." },
+          correctMarks: { type: Type.NUMBER, description: "Marks for a correct answer in this section, if printed." },
+          incorrectMarks: { type: Type.NUMBER, description: "Marks deducted for a wrong answer in this section, if printed, as a positive number." },
+          partialMarking: { type: Type.BOOLEAN, description: "Whether partial marks are given for partly correct multiple-correct answers." }
+        },
+        required: ["name"]
+      }
+    },
+    questions: {
+      type: Type.ARRAY,
+      description: "List of questions (multiple choice and numerical) extracted from the document.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: "Sequential ID of the question" },
+          printedNumber: { type: Type.INTEGER, description: "The question number exactly as printed on the paper." },
+          section: {
+            type: Type.STRING,
+            description: "The name of the section this question is printed under, matching 'sections'. Omit if the paper has no sections."
+          },
+          type: {
+            type: Type.STRING,
+            enum: ["SINGLE_CORRECT", "MULTIPLE_CORRECT", "NUMERICAL"],
+            description: "SINGLE_CORRECT for exactly one correct option, MULTIPLE_CORRECT when one or more options can be correct, NUMERICAL for integer/decimal answer questions without options."
+          },
+          subject: {
+            type: Type.STRING,
+            enum: ["PHYSICS", "CHEMISTRY", "BIOLOGY", "MATHS"],
+            description: "The subject the question belongs to."
+          },
+          chapter: {
+            type: Type.STRING,
+            description: "The NCERT-style chapter the question tests, e.g. \"Rotational Motion\", \"Chemical Bonding\", \"Human Physiology\"."
+          },
+          difficulty: {
+            type: Type.STRING,
+            enum: ["EASY", "MEDIUM", "HARD"],
+            description: "How hard the question is for a well-prepared JEE/NEET aspirant."
+          },
+          text: { 
+            type: Type.STRING, 
+            description: "The full text of the question. Use LaTeX for math expressions (e.g. $x^2$). " 
+          },
+          pageNumber: {
+            type: Type.INTEGER,
+            description: "The page number (1-based) where this question appears."
+          },
+          boundingBox: {
+            type: Type.ARRAY,
+            items: { type: Type.INTEGER },
+            description: "The bounding box [ymin, xmin, ymax, xmax] (0-1000 scale) of ONLY the DIAGRAM/IMAGE associated with the question. Do not include the question text. If no diagram exists, return [0,0,0,0]."
+          },
+          options: {
+            type: Type.ARRAY,
+            description: "The answer options. Leave empty for NUMERICAL questions.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.STRING, description: "The option label (A, B, C, D)" },
+                text: { type: Type.STRING, description: "The text content of the option." }
+              },
+              required: ["id", "text"]
+            }
+          },
+          correctOptionId: { 
+            type: Type.STRING, 
+            description: "The correct option ID (A, B, C, or D). YOU MUST SOLVE THE QUESTION yourself to determine this, even if an answer key is printed. For MULTIPLE_CORRECT use the first correct option; for NUMERICAL return an empty string." 
+          },
+          correctOptionIds: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "For MULTIPLE_CORRECT questions, ALL correct option IDs (e.g. [\"A\", \"C\"]). Empty for other types."
+          },
+          numericAnswer: {
+            type: Type.NUMBER,
+            description: "For NUMERICAL questions, the exact numeric answer. Omit for other types."
+          },
+          confidence: {
+            type: Type.NUMBER,
+            description: "How confident you are (0 to 1) that your solved answer is correct."
+          },
+          explanation: {
+            type: Type.STRING,
+            description: "A brief explanation of why the answer is correct. Use LaTeX for math."
+          }
+        },
+        required: ["id", "type", "text", "options", "correctOptionId"]
+      }
+    }
+  },
+  required: ["title", "questions"]
+};
+
+const EXTRACTION_INSTRUCTIONS = `You are an expert academic tutor for JEE and NEET aspirants. 
+            Visually scan this mock test. 
+            1. EXTRACT ALL QUESTIONS found in the document. Do not summarize. Do not stop after a few. If there are 50 questions, extract all 50.
+            2. Identify distinct questions and their multiple-choice options (A, B, C, D). Classify each question's 'type': SINGLE_CORRECT, MULTIPLE_CORRECT (one or more options correct, e.g. JEE Advanced) or NUMERICAL (integer/decimal answer, no options). Tag each question with its 'subject', 'chapter' (use standard NCERT chapter names so questions from the same chapter share one name) and 'difficulty'.
+            3. For each question, identify the 'boundingBox' [ymin, xmin, ymax, xmax] (0-1000 scale) strictly for the DIAGRAM, FIGURE, or GRAPH associated with the question. DO NOT include the question text or options in this box. If there is no visual diagram, return [0,0,0,0].
+            4. SOLVE each question yourself to find the correct answer; do not copy it from a printed answer key. For MULTIPLE_CORRECT questions list every correct option in 'correctOptionIds'; for NUMERICAL questions return the value in 'numericAnswer'. Rate your 'confidence' in the answer from 0 to 1, and record the question number as printed in 'printedNumber'.
+            5. Provide a brief explanation for the solution.
+            6. If the paper is divided into sections (e.g. "Section A" / "Section B: attempt any 10 of 15"), list them in 'sections' with their instructions, marks and 'attemptLimit', and set each question's 'section' to its section name.
+            7. Structure the output strictly as JSON.
+            8. IMPORTANT: For any mathematical expressions, chemical formulas, or physics equations, YOU MUST USE LaTeX format enclosed in single dollar signs for inline math (e.g., $E=mc^2$) or double dollar signs for block math.`;
+
+// The printed key is read in its own request so the extraction's answers stay the model's own solutions
+const answerKeySchema = {
+  type: Type.OBJECT,
+  properties: {
+    found: { type: Type.BOOLEAN, description: "Whether the document contains a printed answer key." },
+    answers: {
+      type: Type.ARRAY,
+      description: "Every entry of the answer key, in the order printed. Empty if there is no key.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          questionNumber: { type: Type.INTEGER, description: "The question number as printed in the key." },
+          answer: { type: Type.STRING, description: "The answer exactly as printed, e.g. \"B\", \"A, C\" or \"3.5\"." }
+        },
+        required: ["questionNumber", "answer"]
+      }
+    }
+  },
+  required: ["found", "answers"]
+};
+
+const ANSWER_KEY_INSTRUCTIONS = `Look for a printed ANSWER KEY in this document or these pages (usually a table of question numbers and answers near the end, sometimes titled "Answer Key" or "Answers").
+            Do NOT solve any questions. Only transcribe answers that are actually printed in the document.
+            If there is no answer key, set 'found' to false and return an empty list.`;
+
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is missing from the server environment.");
+  }
+  client ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+};
+
+// Each page image follows a label with its page number, so the model can report where questions are
+const buildPageParts = (pages: ExtractPage[]): Part[] => pages.flatMap(page => [
+  { text: page.contextOnly ? `Page ${page.pageNumber} (context only):` : `Page ${page.pageNumber}:` },
+  { inlineData: { mimeType: page.mimeType || "image/jpeg", data: page.image } },
+]);
+
+// A short paper goes to the model as the original PDF; a batch of a long or photographed one as labelled page images
+const buildExtractionParts = (request: ExtractRequest): Part[] => {
+  if ('pdf' in request) {
+    return [
+      { inlineData: { mimeType: "application/pdf", data: request.pdf } },
+      { text: EXTRACTION_INSTRUCTIONS },
+    ];
+  }
+
+  const { pages, startPage, endPage } = request;
+  const contextPage = pages.find(p => p.contextOnly)?.pageNumber;
+  const parts = buildPageParts(pages);
+  parts.push({
+    text: `${EXTRACTION_INSTRUCTIONS}
+            SCOPE: The images above are pages ${startPage}-${endPage} of a longer paper, each labelled with its page number.
+            Extract ONLY questions that START on pages ${startPage}-${endPage}. Skip any question fragment at the top of page ${startPage} that continues from an earlier page.${contextPage ? ` Page ${contextPage} is context only: use it to complete questions that run over from page ${endPage}, but do not extract questions that start on it.` : ''}
+            Set 'pageNumber' to the labelled page number where the question's diagram (or, if none, the question) appears.`
+  });
+  return parts;
+};
+
+// Yields the response text as it streams in
+export async function* streamQuiz(request: ExtractRequest, signal: AbortSignal): AsyncGenerator<string> {
+  const stream = await getClient().models.generateContentStream({
+    model: EXTRACTION_MODEL,
+    contents: { parts: buildExtractionParts(request) },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: quizResponseSchema,
+      temperature: 0.1,
+      abortSignal: signal,
+    }
+  });
+
+  let hasCandidates = false;
+  let hasText = false;
+  let finishReason: string | undefined;
+
+  for await (const chunk of stream) {
+    if (chunk.candidates?.length) {
+      hasCandidates = true;
+      finishReason = chunk.candidates[0].finishReason ?? finishReason;
+    }
+    if (chunk.text) {
+      hasText = true;
+      yield chunk.text;
+    }
+  }
+
+  if (!hasCandidates) {
+    throw new Error("AI returned no candidates. The document might be too large or violate safety policies.");
+  }
+  if (!hasText) {
+    console.warn("Empty response text. Finish reason:", finishReason);
+    throw new Error("AI returned empty response. Please try a different or shorter PDF.");
+  }
+}
+
+export const readAnswerKey = async (request: AnswerKeyRequest, signal: AbortSignal): Promise<{ found?: boolean; answers?: AnswerKeyEntry[] }> => {
+  const document: Part[] = 'pdf' in request
+    ? [{ inlineData: { mimeType: "application/pdf", data: request.pdf } }]
+    : buildPageParts(request.pages);
+  const response = await getClient().models.generateContent({
+    model: EXTRACTION_MODEL,
+    contents: {
+      parts: [...document, { text: ANSWER_KEY_INSTRUCTIONS }]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: answerKeySchema,
+      temperature: 0,
+      abortSignal: signal,
+    }
+  });
+  return JSON.parse(response.text || "{}");
+};
+
+const QUESTION_TYPE_LABELS: Record<TutorContext['questionType'], string> = {
+  SINGLE_CORRECT: "single correct answer",
+  MULTIPLE_CORRECT: "one or more correct answers",
+  NUMERICAL: "numerical answer",
+};
+
+const IMAGE_NOTES: Record<QuestionImage["region"], string> = {
+  diagram: "The question's diagram is attached. Read values and labels from it.",
+  page: "The page the question is printed on is attached. Use any figure, table or data on it that belongs to this question and ignore the other questions.",
+};
+
+const describeQuestion = ({ questionText, questionType, options, correctAnswer, image }: TutorContext) => `
+    Question (${QUESTION_TYPE_LABELS[questionType]}): ${questionText}
+
+    ${options.length > 0 ? `Options:\n    ${options.map(o => `${o.id}) ${o.text}`).join('\n    ')}` : 'The answer is a numerical value.'}
+
+    Correct answer: ${correctAnswer}
+    ${image ? IMAGE_NOTES[image.region] : ''}`;
+
+const FORMATTING_RULES = `
+    FORMATTING RULES:
+    - Use Markdown for structure (headings, bold text).
+    - CRITICAL: Write ALL mathematical expressions, equations, and chemical formulas using LaTeX syntax.
+    - Enclose inline math in single dollar signs, e.g., $\\sqrt{x^2 + y^2}$.
+    - Enclose block math equations in double dollar signs, e.g., $$ F = ma $$.
+    - Do not use plain text for math (e.g., avoid writing "x squared", use $x^2$).`;
+
+const buildTutorInstructions = (context: TutorContext) => `
+    You are an expert JEE/NEET tutor. A student is reviewing a question from a mock test they just took and is asking you about it.
+    ${describeQuestion(context)}
+    Student's answer: ${context.studentAnswer ?? 'skipped'}
+
+    HOW TO RESPOND:
+    - Answer exactly what the student asks, building on the conversation so far.
+    - If they ask for a hint, give ONLY a hint that moves them one step forward. Do not reveal the answer or the full working.
+    - For a full solution: identify the key concept or formula, show the calculation steps clearly, explain the reasoning, and conclude with the correct option(s) or final numerical value.
+    - When asked about a particular option, explain precisely why it is right or wrong.
+    - If their answer is wrong, point out the specific mistake they most likely made.
+    - If you believe the correct answer above is itself wrong, say so and explain why.
+    ${FORMATTING_RULES}
+
+    Keep the tone professional, authoritative, and encouraging.
+  `;
+
+// Yields the tutor's reply as it streams in
+export async function* streamTutor({ context, messages }: TutorRequest, signal: AbortSignal): AsyncGenerator<string> {
+  const contents: Content[] = messages.map((message, index) => ({
+    role: message.role,
+    parts: index === 0 && context.image
+      ? [{ inlineData: { mimeType: context.image.mimeType, data: context.image.data } }, { text: message.text }]
+      : [{ text: message.text }],
+  }));
+
+  const stream = await getClient().models.generateContentStream({
+    model: SOLUTION_MODEL,
+    contents,
+    config: {
+      systemInstruction: buildTutorInstructions(context),
+      temperature: 0.2,
+      abortSignal: signal,
+    }
+  });
+
+  let hasText = false;
+  for await (const chunk of stream) {
+    if (chunk.text) {
+      hasText = true;
+      yield chunk.text;
+    }
+  }
+  if (!hasText) throw new Error(`Empty response from ${SOLUTION_MODEL}`);
+}
+
+const HINT_STEPS: Record<HintLevel, string> = {
+  CONCEPT: "Name the concept, law or formula the question rests on, and why it applies. Do not set up any equations with the question's numbers.",
+  FIRST_STEP: "Show how to start: the first equation or deduction, set up with the question's values. Stop there.",
+  NEAR_SOLUTION: "Take the working to the last step, leaving only the final calculation or choice of option for the student.",
+};
+
+// One rung of the practice-mode hint ladder; never reveals the final answer
+export const getHint = async ({ context, level, previousHints }: HintRequest, signal: AbortSignal): Promise<string> => {
+  const instructions = `
+    You are an expert JEE/NEET tutor. A student is attempting this question in practice mode and has asked for a hint.
+    ${describeQuestion(context)}
+
+    ${previousHints.length > 0 ? `Hints already given:\n    ${previousHints.map((hint, i) => `${i + 1}. ${hint}`).join('\n    ')}\n\n    Build on them without repeating them.` : ''}
+
+    THIS HINT: ${HINT_STEPS[level]}
+    - Never state the correct option or the final numerical value.
+    - Keep it to two or three sentences, no headings.
+    ${FORMATTING_RULES}
+  `;
+
+  const parts: Part[] = [{ text: instructions }];
+  if (context.image) parts.unshift({ inlineData: { mimeType: context.image.mimeType, data: context.image.data } });
+
+  const response = await getClient().models.generateContent({
+    model: SOLUTION_MODEL,
+    contents: { parts },
+    config: { temperature: 0.2, abortSignal: signal },
+  });
+  if (!response.text) throw new Error(`Empty response from ${SOLUTION_MODEL}`);
+  return response.text.trim();
+};
@@ -0,0 +1,279 @@
+import "./env.ts";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { createReadStream, existsSync, statSync } from "node:fs";
+import { extname, join, normalize, resolve, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { AnswerKeyRequest, ExtractPage, ExtractRequest, HintLevel, HintRequest, StreamEvent, TutorContext, TutorRequest } from "../types.ts";
+import { getHint, readAnswerKey, streamQuiz, streamTutor } from "./gemini.ts";
+import { createRateLimiter } from "./rateLimit.ts";
+
+// Holds the Gemini key and exposes the few calls the app needs, so the key never reaches the browser.
+// Also serves the production build from dist/ when it exists.
+
+const PORT = Number(process.env.PORT) || 8787;
+const DIST_DIR = fileURLToPath(new URL("../dist", import.meta.url));
+
+// Gemini accepts at most 20 MB of inline data per request; base64 makes documents about a third larger
+const MAX_DOCUMENT_BODY_BYTES = 20 * 1024 * 1024;
+// Room for a picture of the question's page plus the conversation
+const MAX_TUTOR_BODY_BYTES = 4 * 1024 * 1024;
+const MAX_TUTOR_MESSAGES = 40;
+
+// A 40-page paper takes 10 batch requests plus the answer key, with room for retries
+const extractionLimiter = createRateLimiter({ limit: 40, windowMs: 10 * 60 * 1000 });
+const tutorLimiter = createRateLimiter({ limit: 20, windowMs: 60 * 1000 });
+const hintLimiter = createRateLimiter({ limit: 20, windowMs: 60 * 1000 });
+
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+};
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Behind a reverse proxy every request comes from the proxy, so the client is taken from X-Forwarded-For instead.
+// Each proxy appends the address it saw, and anything before that is whatever the client sent, so the client is
+// the entry TRUST_PROXY hops from the right (1 when it isn't a number, i.e. a single proxy).
+const TRUSTED_PROXY_HOPS = Math.max(1, Math.floor(Number(process.env.TRUST_PROXY)) || 1);
+
+const getClientId = (req: IncomingMessage) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  if (process.env.TRUST_PROXY && typeof forwarded === "string") {
+    const entries = forwarded.split(",").map(entry => entry.trim()).filter(Boolean);
+    const client = entries[Math.max(0, entries.length - TRUSTED_PROXY_HOPS)];
+    if (client) return client;
+  }
+  return req.socket.remoteAddress ?? "unknown";
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const tooLarge = (maxBytes: number) => {
+  const limit = maxBytes >= 1024 * 1024 ? `${Math.round(maxBytes / 1024 / 1024)} MB` : `${Math.round(maxBytes / 1024)} KB`;
+  return new HttpError(413, `The request is larger than the ${limit} limit.`);
+};
+
+// Stops reading as soon as the body passes the limit instead of buffering all of it first
+const readJson = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  if (Number(req.headers["content-length"]) > maxBytes) throw tooLarge(maxBytes);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw tooLarge(maxBytes);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "The request body is not valid JSON.");
+  }
+};
+
+const isString = (value: unknown): value is string => typeof value === "string" && value.length > 0;
+
+// Formats Gemini reads as images; rendered PDF pages are JPEG, photographed pages keep their uploaded format
+const PAGE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+// Null unless every page is valid
+const parsePages = (pages: any): ExtractPage[] | null => {
+  const valid = Array.isArray(pages) && pages.length > 0 && pages.every((p: any) =>
+    Number.isInteger(p?.pageNumber) && isString(p.image) && (p.mimeType === undefined || PAGE_IMAGE_TYPES.includes(p.mimeType))
+  );
+  return valid
+    ? pages.map((p: any) => ({ pageNumber: p.pageNumber, image: p.image, mimeType: p.mimeType, contextOnly: p.contextOnly === true }))
+    : null;
+};
+
+const parseExtractRequest = (body: any): ExtractRequest => {
+  if (isString(body?.pdf)) return { pdf: body.pdf };
+  const { startPage, endPage } = body ?? {};
+  const pages = parsePages(body?.pages);
+  if (!pages || !Number.isInteger(startPage) || !Number.isInteger(endPage)) {
+    throw new HttpError(400, `Send either a 'pdf' or a page batch with 'pages' (${PAGE_IMAGE_TYPES.join(", ")}), 'startPage' and 'endPage'.`);
+  }
+  return { pages, startPage, endPage };
+};
+
+const parseAnswerKeyRequest = (body: any): AnswerKeyRequest => {
+  if (isString(body?.pdf)) return { pdf: body.pdf };
+  const pages = parsePages(body?.pages);
+  if (!pages) throw new HttpError(400, `Send the document as 'pdf', or its pages as 'pages' (${PAGE_IMAGE_TYPES.join(", ")}).`);
+  return { pages };
+};
+
+const QUESTION_TYPES: TutorContext["questionType"][] = ["SINGLE_CORRECT", "MULTIPLE_CORRECT", "NUMERICAL"];
+
+const parseTutorContext = (context: any): TutorContext => {
+  const validOptions = Array.isArray(context?.options) && context.options.every((o: any) => typeof o?.id === "string" && typeof o.text === "string");
+  if (!isString(context?.questionText) || !QUESTION_TYPES.includes(context.questionType) || !validOptions || !isString(context.correctAnswer)) {
+    throw new HttpError(400, "Send a 'context' with 'questionText', 'questionType', 'options' and 'correctAnswer'.");
+  }
+  const image = context.image;
+  const validImage = image === undefined || (
+    (image?.region === "diagram" || image?.region === "page") && isString(image.mimeType) && image.mimeType.startsWith("image/") && isString(image.data)
+  );
+  if (!validImage) {
+    throw new HttpError(400, "The image must have a 'region', an image 'mimeType' and base64 'data'.");
+  }
+  return {
+    questionText: context.questionText,
+    questionType: context.questionType,
+    options: context.options.map((o: any) => ({ id: o.id, text: o.text })),
+    correctAnswer: context.correctAnswer,
+    studentAnswer: isString(context.studentAnswer) ? context.studentAnswer : undefined,
+    image: image && { region: image.region, mimeType: image.mimeType, data: image.data },
+  };
+};
+
+const parseTutorRequest = (body: any): TutorRequest => {
+  const messages = body?.messages;
+  const validMessages = Array.isArray(messages) && messages.length > 0 && messages.length <= MAX_TUTOR_MESSAGES
+    && messages.every((m: any) => (m?.role === "user" || m?.role === "model") && isString(m.text))
+    && messages[messages.length - 1].role === "user";
+  if (!validMessages) {
+    throw new HttpError(400, `Send up to ${MAX_TUTOR_MESSAGES} 'messages', ending with the student's.`);
+  }
+  return {
+    context: parseTutorContext(body.context),
+    messages: messages.map((m: any) => ({ role: m.role, text: m.text })),
+  };
+};
+
+const HINT_LEVELS: HintLevel[] = ["CONCEPT", "FIRST_STEP", "NEAR_SOLUTION"];
+
+const parseHintRequest = (body: any): HintRequest => {
+  const { level, previousHints } = body ?? {};
+  const validHints = Array.isArray(previousHints) && previousHints.length < HINT_LEVELS.length && previousHints.every(isString);
+  if (!HINT_LEVELS.includes(level) || !validHints) {
+    throw new HttpError(400, `Send a 'level' (${HINT_LEVELS.join(", ")}) and the 'previousHints' already shown.`);
+  }
+  return { context: parseTutorContext(body.context), level, previousHints };
+};
+
+// Aborts the Gemini call when the browser cancels or disconnects, so we stop paying for it
+const abortOnDisconnect = (res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+// Newline-delimited JSON, so the browser can show text as it arrives and still learn about a late failure
+const sendStream = async (res: ServerResponse, stream: AsyncGenerator<string>, signal: AbortSignal, failure: string) => {
+  const write = (event: StreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  // Wait for the first chunk so errors before any output still get a proper status code
+  const first = await stream.next();
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" });
+  try {
+    if (!first.done) write({ text: first.value });
+    for await (const text of stream) write({ text });
+    write({ done: true });
+  } catch (error: any) {
+    if (!signal.aborted) {
+      console.error(`${failure} mid-stream`, error);
+      write({ error: error?.message || `${failure}.` });
+    }
+  }
+  res.end();
+};
+
+const handleExtract = async (req: IncomingMessage, res: ServerResponse) => {
+  const request = parseExtractRequest(await readJson(req, MAX_DOCUMENT_BODY_BYTES));
+  const signal = abortOnDisconnect(res);
+  await sendStream(res, streamQuiz(request, signal), signal, "Extraction failed");
+};
+
+const handleAnswerKey = async (req: IncomingMessage, res: ServerResponse) => {
+  const request = parseAnswerKeyRequest(await readJson(req, MAX_DOCUMENT_BODY_BYTES));
+  sendJson(res, 200, await readAnswerKey(request, abortOnDisconnect(res)));
+};
+
+const handleTutor = async (req: IncomingMessage, res: ServerResponse) => {
+  const request = parseTutorRequest(await readJson(req, MAX_TUTOR_BODY_BYTES));
+  const signal = abortOnDisconnect(res);
+  await sendStream(res, streamTutor(request, signal), signal, "The tutor failed");
+};
+
+const handleHint = async (req: IncomingMessage, res: ServerResponse) => {
+  const request = parseHintRequest(await readJson(req, MAX_TUTOR_BODY_BYTES));
+  sendJson(res, 200, { text: await getHint(request, abortOnDisconnect(res)) });
+};
+
+const ROUTES: Record<string, { handler: typeof handleExtract; limiter: ReturnType<typeof createRateLimiter> }> = {
+  "/api/extract": { handler: handleExtract, limiter: extractionLimiter },
+  "/api/answer-key": { handler: handleAnswerKey, limiter: extractionLimiter },
+  "/api/tutor": { handler: handleTutor, limiter: tutorLimiter },
+  "/api/hint": { handler: handleHint, limiter: hintLimiter },
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+  const route = ROUTES[pathname];
+  if (!route) throw new HttpError(404, "Not found.");
+  if (req.method !== "POST") throw new HttpError(405, "Use POST.");
+
+  const { allowed, retryAfterSeconds } = route.limiter(getClientId(req));
+  if (!allowed) {
+    sendJson(res, 429, { error: `Too many requests. Try again in ${retryAfterSeconds} seconds.` }, { "Retry-After": String(retryAfterSeconds) });
+    return;
+  }
+  await route.handler(req, res);
+};
+
+// Single-page app: unknown paths get index.html
+const decodePath = (pathname: string) => {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    throw new HttpError(400, "The request path is not valid URL encoding.");
+  }
+};
+
+const serveStatic = (res: ServerResponse, pathname: string) => {
+  const requested = resolve(join(DIST_DIR, normalize(decodePath(pathname))));
+  // With the separator, so a sibling such as dist-ssr/ doesn't count as inside dist/
+  const inDist = requested.startsWith(DIST_DIR + sep) && existsSync(requested) && statSync(requested).isFile();
+  const file = inDist ? requested : join(DIST_DIR, "index.html");
+  if (!existsSync(file)) {
+    sendJson(res, 404, { error: "No build found. Run `npm run build`, or use `npm run dev` during development." });
+    return;
+  }
+  res.writeHead(200, { "Content-Type": MIME_TYPES[extname(file)] ?? "application/octet-stream" });
+  createReadStream(file).pipe(res);
+};
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  try {
+    if (pathname.startsWith("/api/")) await handleApi(req, res, pathname);
+    else serveStatic(res, pathname);
+  } catch (error: any) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(`Request to ${pathname} failed`, error);
+    if (res.headersSent) res.end();
+    else sendJson(res, status, { error: error?.message || "Something went wrong on the server." });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Rankify server listening on http://localhost:${PORT}`);
+  if (!process.env.GEMINI_API_KEY) console.warn("GEMINI_API_KEY is not set; AI requests will fail.");
+});
@@ -0,0 +1,35 @@
+export interface RateLimit {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // Until the client's window resets; 0 when allowed
+}
+
+// Fixed-window counter per client. Counts live in memory, so they reset when the server restarts.
+export const createRateLimiter = ({ limit, windowMs }: RateLimit) => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Forget clients whose window has ended so the map doesn't grow forever
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, clientId) => {
+      if (window.resetAt <= now) windows.delete(clientId);
+    });
+  }, windowMs).unref();
+
+  return (clientId: string, now = Date.now()): RateLimitResult => {
+    let window = windows.get(clientId);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(clientId, window);
+    }
+    if (window.count >= limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+};
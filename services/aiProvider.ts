@@ -0,0 +1,37 @@
+import { ExtractionProgress, ExtractionResult, HintRequest, PaperSource, TutorRequest } from "../types";
+
+export type AIProviderId = 'gemini' | 'mock';
+
+// What the app asks of a model. Batching, validation and answer-key handling are up to each provider.
+export interface AIProvider {
+  id: AIProviderId;
+  name: string; // Shown in the footer and report, e.g. the model name
+  extractQuiz: (
+    source: PaperSource,
+    onProgress?: (progress: ExtractionProgress) => void,
+    signal?: AbortSignal
+  ) => Promise<ExtractionResult>;
+  // Streams the tutor's reply to the last message; onText gets the whole reply so far, and the full reply is returned
+  tutor: (request: TutorRequest, onText: (textSoFar: string) => void, signal?: AbortSignal) => Promise<string>;
+  hint: (request: HintRequest, signal?: AbortSignal) => Promise<string>;
+}
+
+// Models are chosen on the server (see server/gemini.ts); the browser only picks which provider to talk to
+export interface AIConfig {
+  provider: AIProviderId;
+}
+
+// Read from the environment at build time (see vite.config.ts); AI_PROVIDER=mock runs the whole app offline
+export const getAIConfig = (): AIConfig => {
+  const provider = process.env.AI_PROVIDER || 'gemini';
+  if (provider !== 'gemini' && provider !== 'mock') {
+    console.warn(`Unknown AI_PROVIDER "${provider}", falling back to gemini`);
+  }
+  return { provider: provider === 'mock' ? 'mock' : 'gemini' };
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Extraction cancelled.", "AbortError");
+};
+
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === "AbortError";
@@ -0,0 +1,81 @@
+import { ExtractionProgress, ExtractionResult, HintRequest, PaperSource, TutorRequest } from "../types";
+import { AIProvider, getAIConfig } from "./aiProvider";
+import { getExtractionCacheKey, getHintCacheKey, getTutorCacheKey, readCache, writeCache } from "./cacheService";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+export { isAbortError } from "./aiProvider";
+
+let provider: AIProvider | null = null;
+
+// The configured provider; the config is fixed at build time, so it is created once
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    const config = getAIConfig();
+    provider = config.provider === 'mock' ? createMockProvider() : createGeminiProvider();
+  }
+  return provider;
+};
+
+const PREVIEW_SIZE = 3;
+
+// Results are cached by content hash, so re-uploading a paper or reopening a solution costs nothing
+export const parsePaperToQuiz = async (
+  source: PaperSource,
+  onProgress?: (progress: ExtractionProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> => {
+  const ai = getAIProvider();
+  const key = await getExtractionCacheKey(ai.id, source);
+  const cached = await readCache<ExtractionResult>(key);
+  if (cached) {
+    const { questions } = cached.value.quizData;
+    onProgress?.({ stage: 'done', completedBatches: 1, totalBatches: 1, questionsFound: questions.length, previewQuestions: questions.slice(0, PREVIEW_SIZE) });
+    const scannedOn = new Date(cached.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' });
+    return {
+      ...cached.value,
+      warnings: [
+        { severity: 'info', message: `Loaded from the cache of an earlier scan (${scannedOn}). Clear the cache in History to scan it again.` },
+        ...cached.value.warnings,
+      ],
+    };
+  }
+
+  const result = await ai.extractQuiz(source, onProgress, signal);
+  writeCache(key, 'extraction', result.quizData.title, result);
+  return result;
+};
+
+const preview = (text: string, length: number) => text.replace(/\s+/g, ' ').trim().slice(0, length);
+
+// Errors reach the caller so the chat can show what went wrong and offer a retry
+export const streamTutorReply = async (
+  request: TutorRequest,
+  onText: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const ai = getAIProvider();
+  const key = await getTutorCacheKey(ai.id, request);
+  const cached = await readCache<string>(key);
+  if (cached) {
+    onText(cached.value);
+    return cached.value;
+  }
+
+  const reply = await ai.tutor(request, onText, signal);
+  const question = request.messages[request.messages.length - 1].text;
+  writeCache(key, 'solution', `${preview(request.context.questionText, 80)} — ${preview(question, 40)}`, reply);
+  return reply;
+};
+
+// The same rung of the ladder for the same question is only generated once
+export const getHint = async (request: HintRequest, signal?: AbortSignal): Promise<string> => {
+  const ai = getAIProvider();
+  const key = await getHintCacheKey(ai.id, request);
+  const cached = await readCache<string>(key);
+  if (cached) return cached.value;
+
+  const hint = await ai.hint(request, signal);
+  writeCache(key, 'hint', `${preview(request.context.questionText, 80)} — hint ${request.previousHints.length + 1}`, hint);
+  return hint;
+};
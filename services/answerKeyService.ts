@@ -0,0 +1,111 @@
+import { AnswerKeyEntry, ExtractionResult, ExtractionWarning, Question, QuizData } from "../types";
+import {
+  NUMERIC_TOLERANCE, getCorrectOptionIds, getQuestionType, parseMultiAnswer, serializeMultiAnswer
+} from "./scoringService";
+
+// "B", "(b)", "A, C", "AC", "A and C" and keys that number options 1-4 all map to option ids
+const parseOptionAnswer = (raw: string, optionIds: string[]): string[] | null => {
+  const tokens = raw.toUpperCase().split(/\s*(?:,|;|&|\/|\bAND\b|\s)\s*/).filter(Boolean);
+  const ids: string[] = [];
+  for (const token of tokens) {
+    const label = token.replace(/^\(?([A-Z]+|\d+)[).:]?$/, '$1');
+    if (/^\d+$/.test(label)) {
+      const id = optionIds[Number(label) - 1];
+      if (!id) return null;
+      ids.push(id);
+    } else if (/^[A-Z]+$/.test(label) && label.split('').every(id => optionIds.includes(id))) {
+      ids.push(...label.split(''));
+    } else {
+      return null;
+    }
+  }
+  return ids.length > 0 ? [...new Set(ids)].sort() : null;
+};
+
+// The answer in UserAnswers format so key and AI answers can be stored and compared alike
+const getAnswerString = (question: Question) => {
+  switch (getQuestionType(question)) {
+    case 'NUMERICAL': return question.numericAnswer?.toString() ?? '';
+    case 'MULTIPLE_CORRECT': return serializeMultiAnswer(getCorrectOptionIds(question));
+    default: return question.correctOptionId;
+  }
+};
+
+const answersMatch = (question: Question, a: string, b: string) => {
+  if (getQuestionType(question) === 'NUMERICAL') {
+    return a !== '' && b !== '' && Math.abs(parseFloat(a) - parseFloat(b)) <= NUMERIC_TOLERANCE;
+  }
+  return serializeMultiAnswer(parseMultiAnswer(a)) === serializeMultiAnswer(parseMultiAnswer(b));
+};
+
+// Returns the question graded against the key entry, or null when the entry doesn't fit the question
+const applyEntry = (question: Question, raw: string): Question | null => {
+  const type = getQuestionType(question);
+  if (type === 'NUMERICAL') {
+    const value = parseFloat(raw.replace(/\s/g, ''));
+    return Number.isFinite(value) ? { ...question, numericAnswer: value } : null;
+  }
+
+  const ids = parseOptionAnswer(raw, question.options.map(o => o.id));
+  if (!ids) return null;
+  if (type === 'MULTIPLE_CORRECT') return { ...question, correctOptionId: ids[0], correctOptionIds: ids };
+  return ids.length === 1 ? { ...question, correctOptionId: ids[0] } : null;
+};
+
+// Pairs key entries with questions by printed number, or by position when the paper reuses numbers across sections
+const matchEntries = (questions: Question[], entries: AnswerKeyEntry[]): (AnswerKeyEntry | undefined)[] | null => {
+  const numbers = questions.map(q => q.printedNumber ?? q.id);
+  if (new Set(numbers).size === numbers.length) {
+    const byNumber = new Map(entries.map(e => [e.questionNumber, e]));
+    return numbers.map(n => byNumber.get(n));
+  }
+  return entries.length === questions.length ? entries : null;
+};
+
+// Grades against the printed answer key wherever it covers a question and records where each answer came from.
+// The AI's own answer is kept on questions where it disagrees with the key so the results can point them out.
+export const applyAnswerKey = (quizData: QuizData, entries: AnswerKeyEntry[] | null): ExtractionResult => {
+  const warnings: ExtractionWarning[] = [];
+  const aiSolved = (): ExtractionResult => ({
+    quizData: { ...quizData, questions: quizData.questions.map(q => ({ ...q, answerSource: 'AI_SOLVED' })) },
+    warnings,
+  });
+
+  if (!entries || entries.length === 0) return aiSolved();
+
+  const matched = matchEntries(quizData.questions, entries);
+  if (!matched) {
+    warnings.push({ severity: 'warning', message: "The printed answer key could not be matched to the questions, so AI-solved answers are used." });
+    return aiSolved();
+  }
+
+  let fromKey = 0;
+  let disagreements = 0;
+  const questions = quizData.questions.map((question, index): Question => {
+    const entry = matched[index];
+    if (!entry) return { ...question, answerSource: 'AI_SOLVED' };
+
+    const graded = applyEntry(question, entry.answer);
+    if (!graded) {
+      warnings.push({ questionId: question.id, severity: 'warning', message: `Answer key entry "${entry.answer}" does not fit this question; the AI-solved answer is used.` });
+      return { ...question, answerSource: 'AI_SOLVED' };
+    }
+
+    fromKey++;
+    const aiAnswer = getAnswerString(question);
+    const result: Question = { ...graded, answerSource: 'ANSWER_KEY' };
+    delete result.aiAnswer;
+    if (aiAnswer && !answersMatch(question, aiAnswer, getAnswerString(graded))) {
+      disagreements++;
+      result.aiAnswer = aiAnswer;
+    }
+    return result;
+  });
+
+  warnings.unshift({ severity: 'info', message: `Printed answer key found: ${fromKey} of ${questions.length} answers are taken from it.` });
+  if (disagreements > 0) {
+    warnings.push({ severity: 'warning', message: `The AI's own solution disagrees with the printed key on ${disagreements} question(s). The key is used for grading.` });
+  }
+
+  return { quizData: { ...quizData, questions }, warnings };
+};
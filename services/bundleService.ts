@@ -0,0 +1,268 @@
+import { AnswerSource, ExamSection, ExtractionWarning, MarkingScheme, MarkingSchemeId, Question, QuestionAnswerFields, QuestionType, QuizBundle, SavedPaper } from "../types";
+import { MARKING_SCHEMES, formatCorrectAnswer, getQuestionType, hasAnswerKey } from "./scoringService";
+import { getPaperSource, renderQuestionDiagrams } from "./pdfService";
+import { getQuestionSection } from "./sectionService";
+import { DIFFICULTIES, QUESTION_TYPES, normalizeBoundingBox, normalizeOptions, normalizeSubject } from "./quizValidator";
+import { createId } from "./storageService";
+
+export const QUIZ_BUNDLE_FORMAT = 'rankify-quiz';
+// Bump when the bundle layout changes in a way older builds can't read
+export const QUIZ_BUNDLE_VERSION = 1;
+
+// Missing answer fields stay undefined here and are dropped when the bundle is written as JSON
+const splitAnswer = (question: Question): { question: Question; answer: QuestionAnswerFields } => {
+  const { correctOptionId, correctOptionIds, numericAnswer, explanation, answerSource, confidence, aiAnswer, ...rest } = question;
+  return {
+    question: { ...rest, correctOptionId: '' },
+    answer: { correctOptionId, correctOptionIds, numericAnswer, explanation, answerSource, confidence, aiAnswer },
+  };
+};
+
+export const createQuizBundle = async (paper: SavedPaper, includeAnswers: boolean): Promise<QuizBundle> => {
+  const split = paper.quizData.questions.map(splitAnswer);
+  const source = getPaperSource(paper);
+  return {
+    format: QUIZ_BUNDLE_FORMAT,
+    version: QUIZ_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    quizData: { ...paper.quizData, questions: split.map(s => s.question) },
+    // Papers imported without their pages already carry their crops
+    diagrams: source ? await renderQuestionDiagrams(source, paper.quizData.questions) : { ...paper.diagramImages },
+    answerKey: includeAnswers ? Object.fromEntries(split.map(s => [s.question.id, s.answer])) : undefined,
+  };
+};
+
+// Readable version of the bundle for sharing or printing; it can't be imported back
+export const bundleToMarkdown = (bundle: QuizBundle): string => {
+  const { quizData, diagrams, answerKey } = bundle;
+  const lines = [`# ${quizData.title}`, ''];
+  if (quizData.topic) lines.push(`_${quizData.topic}_`, '');
+
+  let previousSectionId: string | undefined;
+  quizData.questions.forEach((question, index) => {
+    const section = getQuestionSection(quizData, question);
+    if (section && section.id !== previousSectionId) {
+      const limit = section.attemptLimit
+        ? ` Attempt any ${section.attemptLimit} of ${quizData.questions.filter(q => q.sectionId === section.id).length}.`
+        : '';
+      lines.push(`> **${section.name}**${limit}${section.instructions ? ` ${section.instructions}` : ''}`, '');
+    }
+    previousSectionId = section?.id;
+    lines.push(`## Question ${index + 1}`, '', question.text, '');
+    if (diagrams[question.id]) lines.push(`![Diagram for question ${index + 1}](${diagrams[question.id]})`, '');
+    question.options.forEach(option => lines.push(`- **(${option.id})** ${option.text}`));
+    if (question.options.length > 0) lines.push('');
+  });
+
+  if (answerKey) {
+    lines.push('## Answer Key', '', '| Question | Answer |', '| :--- | :--- |');
+    quizData.questions.forEach((question, index) => {
+      const answer = answerKey[question.id];
+      lines.push(`| ${index + 1} | ${answer ? formatCorrectAnswer({ ...question, ...answer }) : '-'} |`);
+    });
+    lines.push('');
+  }
+
+  return lines.join('\n');
+};
+
+// Only inline images are kept; a bundle must not make the app load anything from elsewhere
+const pickImageUrls = (diagrams: Record<string, unknown>): Record<number, string> =>
+  Object.fromEntries(Object.entries(diagrams).filter(([, url]) => typeof url === 'string' && url.startsWith('data:image/'))) as Record<number, string>;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Unknown schemes are left out, so scoring falls back to the default; damaged marks fall back to the preset's
+const parseMarkingScheme = (raw: any): MarkingScheme | undefined => {
+  const preset: MarkingScheme | undefined = MARKING_SCHEMES[raw?.id as MarkingSchemeId];
+  if (!preset) return undefined;
+  const { correct, incorrect, unattempted, partialMarking, partialMarks } = raw;
+  if (!isFiniteNumber(correct) || !isFiniteNumber(incorrect) || !isFiniteNumber(unattempted)) return preset;
+  const scheme: MarkingScheme = { ...preset, correct, incorrect, unattempted, partialMarking: partialMarking === true };
+  if (isFiniteNumber(partialMarks) && partialMarks >= 0) scheme.partialMarks = partialMarks;
+  return scheme;
+};
+
+// Keeps only well-formed sections, with an attempt limit only where it still leaves a choice
+const parseSections = (raw: unknown, questions: Question[]): ExamSection[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const sections = raw
+    .filter((s: any) => s && typeof s.id === 'string' && s.id && typeof s.name === 'string')
+    .map((s: any) => {
+      const section: ExamSection = { id: s.id, name: s.name };
+      if (typeof s.instructions === 'string' && s.instructions.trim()) section.instructions = s.instructions;
+      const markingScheme = parseMarkingScheme(s.markingScheme);
+      if (markingScheme) section.markingScheme = markingScheme;
+      const count = questions.filter(q => q.sectionId === s.id).length;
+      if (Number.isInteger(s.attemptLimit) && s.attemptLimit >= 1 && s.attemptLimit < count) section.attemptLimit = s.attemptLimit;
+      return section;
+    });
+  return sections.length > 0 ? sections : undefined;
+};
+
+const ANSWER_SOURCES: AnswerSource[] = ['ANSWER_KEY', 'AI_SOLVED', 'MANUAL'];
+
+// Copies only the answer fields that fit the question; anything else in an answer key entry is ignored
+const parseAnswerFields = (raw: any, question: Question, issues: string[]): QuestionAnswerFields => {
+  const optionIds = question.options.map(o => o.id);
+  const isOptionId = (id: unknown): id is string => typeof id === 'string' && optionIds.includes(id);
+  const answer: QuestionAnswerFields = { correctOptionId: '' };
+  if (!raw || typeof raw !== 'object') return answer;
+
+  if (getQuestionType(question) === 'NUMERICAL') {
+    if (isFiniteNumber(raw.numericAnswer)) answer.numericAnswer = raw.numericAnswer;
+    else if (raw.numericAnswer !== undefined) issues.push("Its numerical answer was damaged and has been removed.");
+  } else {
+    if (isOptionId(raw.correctOptionId)) answer.correctOptionId = raw.correctOptionId;
+    else if (raw.correctOptionId) issues.push(`Its answer "${String(raw.correctOptionId)}" is not one of the options and has been removed.`);
+    if (getQuestionType(question) === 'MULTIPLE_CORRECT' && raw.correctOptionIds !== undefined) {
+      if (Array.isArray(raw.correctOptionIds) && raw.correctOptionIds.length > 0 && raw.correctOptionIds.every(isOptionId)) {
+        answer.correctOptionIds = raw.correctOptionIds;
+      } else {
+        issues.push("Its correct options were damaged and have been removed.");
+      }
+    }
+  }
+  if (typeof raw.explanation === 'string' && raw.explanation.trim()) answer.explanation = raw.explanation;
+  if (ANSWER_SOURCES.includes(raw.answerSource)) answer.answerSource = raw.answerSource;
+  if (isFiniteNumber(raw.confidence) && raw.confidence >= 0 && raw.confidence <= 1) answer.confidence = raw.confidence;
+  if (typeof raw.aiAnswer === 'string' && raw.aiAnswer.trim()) answer.aiAnswer = raw.aiAnswer;
+  return answer;
+};
+
+// Rebuilds a question from the fields the app knows, repaired the same way extracted questions are,
+// so a hand-edited or damaged bundle can't put anything into a question that QuizSection or scoring can't handle
+const parseBundleQuestion = (raw: any, sectionIds: Set<string>, issues: string[]): Question => {
+  const options = normalizeOptions(raw.options, issues);
+  let type: QuestionType = QUESTION_TYPES.includes(raw.type) ? raw.type : (options.length === 0 ? 'NUMERICAL' : 'SINGLE_CORRECT');
+  if (type !== 'NUMERICAL' && options.length === 0) {
+    issues.push("No options were found, so it is treated as a numerical question.");
+    type = 'NUMERICAL';
+  }
+
+  const question: Question = {
+    id: raw.id,
+    type,
+    text: raw.text,
+    options: type === 'NUMERICAL' ? [] : options,
+    correctOptionId: '',
+    pageNumber: Number.isInteger(raw.pageNumber) && raw.pageNumber >= 1 ? raw.pageNumber : 1,
+    boundingBox: normalizeBoundingBox(raw.boundingBox, issues),
+  };
+  const subject = normalizeSubject(raw.subject);
+  if (subject) question.subject = subject;
+  if (typeof raw.chapter === 'string' && raw.chapter.trim()) question.chapter = raw.chapter.trim();
+  if (DIFFICULTIES.includes(raw.difficulty)) question.difficulty = raw.difficulty;
+  // A question pointing at a dropped section is scored as if the paper had none
+  if (typeof raw.sectionId === 'string' && sectionIds.has(raw.sectionId)) question.sectionId = raw.sectionId;
+  if (Number.isInteger(raw.printedNumber) && raw.printedNumber > 0) question.printedNumber = raw.printedNumber;
+
+  // Answers kept inline, as in a bundle written by hand, are checked the same way as the answer key
+  const answer = parseAnswerFields(raw, question, issues);
+  return { ...question, ...answer };
+};
+
+// Checks an imported file before anything is saved. Errors are written for the person importing it.
+export const parseQuizBundle = (text: string): { bundle: QuizBundle; warnings: ExtractionWarning[] } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON. Import a .json bundle exported from Rankify.");
+  }
+
+  if (!raw || raw.format !== QUIZ_BUNDLE_FORMAT) {
+    throw new Error("This file isn't a Rankify quiz bundle.");
+  }
+  if (!Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error("This bundle has no valid version number and can't be imported.");
+  }
+  if (raw.version > QUIZ_BUNDLE_VERSION) {
+    throw new Error(`This bundle was exported by a newer version of Rankify (format v${raw.version}). Update the app to import it.`);
+  }
+
+  const rawQuestions = raw.quizData?.questions;
+  const isValidQuestion = (q: any) =>
+    q && Number.isInteger(q.id) && typeof q.text === 'string' && q.text.trim() !== '' && Array.isArray(q.options);
+  if (typeof raw.quizData?.title !== 'string' || !Array.isArray(rawQuestions) || rawQuestions.length === 0 || !rawQuestions.every(isValidQuestion)) {
+    throw new Error("This bundle's questions are missing or damaged.");
+  }
+  // Answers, diagrams and attempts are all keyed by question id
+  if (new Set(rawQuestions.map((q: any) => q.id)).size !== rawQuestions.length) {
+    throw new Error("This bundle has two questions with the same number and can't be imported.");
+  }
+
+  const warnings: ExtractionWarning[] = [];
+  const sections = parseSections(raw.quizData.sections, rawQuestions);
+  const sectionIds = new Set(sections?.map(s => s.id));
+  const questions = rawQuestions.map((rq: any) => {
+    const issues: string[] = [];
+    const question = parseBundleQuestion(rq, sectionIds, issues);
+    issues.forEach(message => warnings.push({ questionId: question.id, severity: 'warning', message }));
+    return question;
+  });
+
+  let answerKey: Record<number, QuestionAnswerFields> | undefined;
+  if (raw.answerKey && typeof raw.answerKey === 'object') {
+    answerKey = {};
+    for (const question of questions) {
+      const entry = raw.answerKey[question.id];
+      if (entry === undefined) continue;
+      const issues: string[] = [];
+      answerKey[question.id] = parseAnswerFields(entry, question, issues);
+      issues.forEach(message => warnings.push({ questionId: question.id, severity: 'warning', message }));
+    }
+  }
+
+  return {
+    bundle: {
+      format: QUIZ_BUNDLE_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      quizData: {
+        title: raw.quizData.title,
+        topic: typeof raw.quizData.topic === 'string' ? raw.quizData.topic : undefined,
+        questions,
+        markingScheme: parseMarkingScheme(raw.quizData.markingScheme),
+        sections,
+      },
+      diagrams: raw.diagrams && typeof raw.diagrams === 'object' ? pickImageUrls(raw.diagrams) : {},
+      answerKey,
+    },
+    warnings,
+  };
+};
+
+// warnings are the ones parseQuizBundle found; they're shown on the setup screen together with the grading ones
+export const bundleToPaper = (bundle: QuizBundle, warnings: ExtractionWarning[] = []): SavedPaper => {
+  const questions = bundle.quizData.questions.map(question => ({ ...question, ...bundle.answerKey?.[question.id] }));
+  const ungradable = questions.filter(q => !hasAnswerKey(q)).length;
+
+  return {
+    id: createId(),
+    quizData: { ...bundle.quizData, questions },
+    pdfBase64: null,
+    diagramImages: bundle.diagrams,
+    extractionWarnings: [
+      ...warnings,
+      ...(ungradable > 0
+        ? [{ severity: 'warning' as const, message: bundle.answerKey
+            ? `${ungradable} imported question(s) have no answer and can't be graded.`
+            : "This bundle was shared without answers, so results can't be graded." }]
+        : []),
+    ],
+    createdAt: Date.now(),
+  };
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const getBundleFilename = (title: string, extension: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz'}.${extension}`;
@@ -0,0 +1,55 @@
+import { CacheEntry, CacheKind, HintRequest, PaperSource, TutorRequest } from "../types";
+import { getCacheEntry, saveCacheEntry } from "./storageService";
+import type { AIProviderId } from "./aiProvider";
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: Uint8Array) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+// Keys include the provider so the offline mock's canned results never stand in for real ones.
+// Returns null when hashing isn't available (crypto.subtle needs HTTPS or localhost); the cache is then skipped.
+const buildKey = async (providerId: AIProviderId, kind: CacheKind, getBytes: () => Uint8Array): Promise<string | null> => {
+  try {
+    return `${providerId}:${kind}:${await sha256(getBytes())}`;
+  } catch (error) {
+    console.warn("Could not hash for the cache", error);
+    return null;
+  }
+};
+
+// Hashes the PDF's bytes, so the same file re-uploaded under another name still hits.
+// Image pages are hashed in order, so the same photos in another order count as another paper.
+export const getExtractionCacheKey = (providerId: AIProviderId, source: PaperSource) =>
+  buildKey(providerId, 'extraction', () => 'pdf' in source
+    ? Uint8Array.from(atob(source.pdf), c => c.charCodeAt(0))
+    : new TextEncoder().encode(source.images.map(image => image.data).join('\n')));
+
+// The whole conversation is part of the key, so only a repeated question in the same context hits
+export const getTutorCacheKey = (providerId: AIProviderId, request: TutorRequest) =>
+  buildKey(providerId, 'solution', () => new TextEncoder().encode(JSON.stringify(request)));
+
+export const getHintCacheKey = (providerId: AIProviderId, request: HintRequest) =>
+  buildKey(providerId, 'hint', () => new TextEncoder().encode(JSON.stringify(request)));
+
+// Cache failures never stop the AI call; the result just isn't reused
+export const readCache = async <T>(key: string | null): Promise<CacheEntry<T> | undefined> => {
+  if (!key) return undefined;
+  try {
+    return await getCacheEntry<T>(key);
+  } catch (error) {
+    console.warn("Could not read the cache", error);
+    return undefined;
+  }
+};
+
+export const writeCache = (key: string | null, kind: CacheKind, label: string, value: unknown) => {
+  if (!key) return;
+  saveCacheEntry({ key, kind, label, value, sizeBytes: JSON.stringify(value).length, createdAt: Date.now() })
+    .catch(error => console.warn("Could not write the cache", error));
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,38 @@
+import { ExamConfig, MarkingSchemeId } from "../types";
+
+// Official paper durations divided by question count (JEE Main: 3h / 90, NEET: 3h20m / 200, JEE Advanced: 3h / 54)
+const SECONDS_PER_QUESTION: Record<MarkingSchemeId, number> = {
+  JEE_MAIN: 120,
+  JEE_ADVANCED: 200,
+  NEET: 60,
+  CUSTOM: 120,
+};
+
+// Offered as warning thresholds in the setup screen, in minutes remaining
+export const WARNING_THRESHOLD_OPTIONS = [30, 15, 10, 5, 1];
+
+const DEFAULT_WARNING_MINUTES = [30, 10, 5];
+
+export const getDefaultDurationSeconds = (questionCount: number, schemeId: MarkingSchemeId) => {
+  const raw = questionCount * SECONDS_PER_QUESTION[schemeId];
+  // Round up to whole 5 minutes like a printed paper would
+  return Math.max(300, Math.ceil(raw / 300) * 300);
+};
+
+export const getDefaultExamConfig = (questionCount: number, schemeId: MarkingSchemeId): ExamConfig => ({
+  mode: 'timed',
+  durationSeconds: getDefaultDurationSeconds(questionCount, schemeId),
+  warningThresholds: DEFAULT_WARNING_MINUTES.map(m => m * 60),
+});
+
+export const formatClock = (secs: number) => {
+  const h = Math.floor(secs / 3600);
+  const m = Math.floor((secs % 3600) / 60);
+  const s = secs % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+export const formatWarning = (secondsRemaining: number) => {
+  const minutes = Math.round(secondsRemaining / 60);
+  return minutes === 1 ? '1 minute remaining' : `${minutes} minutes remaining`;
+};
@@ -1,170 +1,380 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { QuizData, QuizOption } from "../types";
+import {
+  AnswerKeyEntry, AnswerKeyRequest, ExtractPage, ExtractRequest, ExtractionProgress, ExtractionResult, InlineImage, PaperSource,
+  Question, QuizData, HintRequest, StreamEvent, TutorRequest
+} from "../types";
+import { AIProvider, throwIfAborted } from "./aiProvider";
+import { PaperDocument, loadPaperDocument, renderPageToJpeg } from "./pdfService";
+import { parseStreamedQuestions } from "./streamParser";
+import { validateQuizData } from "./quizValidator";
+import { applyAnswerKey } from "./answerKeyService";
 
-export const parsePdfToQuiz = async (base64Pdf: string): Promise<QuizData> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY is missing from environment variables.");
+// Long papers are split into page batches so each response stays within the model's output limit
+const PAGES_PER_BATCH = 4;
+const MAX_CONCURRENT_BATCHES = 2;
+const MAX_ATTEMPTS = 3;
+// Printed answer keys sit at the end of a paper; papers too long to send whole send only these pages to look for one
+const ANSWER_KEY_PAGES = 4;
+
+// Gemini is only reached through our own server, which holds the API key (see server/index.ts)
+const API_BASE = "/api";
+
+// An error response from the server, e.g. 413 for a document over the size limit or 429 when rate limited
+class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
   }
+}
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Schema for structured output
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      title: {
-        type: Type.STRING,
-        description: "A short, descriptive title for the mock test extracted from the document header.",
-      },
-      topic: {
-        type: Type.STRING,
-        description: "The main subject or topic (e.g., Physics - Rotational Motion, NEET Full Mock).",
-      },
-      questions: {
-        type: Type.ARRAY,
-        description: "List of multiple choice questions extracted from the document.",
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.INTEGER, description: "Sequential ID of the question" },
-            text: { 
-              type: Type.STRING, 
-              description: "The full text of the question. Use LaTeX for math expressions (e.g. $x^2$). " 
-            },
-            pageNumber: {
-              type: Type.INTEGER,
-              description: "The page number (1-based) where this question appears."
-            },
-            boundingBox: {
-              type: Type.ARRAY,
-              items: { type: Type.INTEGER },
-              description: "The bounding box [ymin, xmin, ymax, xmax] (0-1000 scale) of ONLY the DIAGRAM/IMAGE associated with the question. Do not include the question text. If no diagram exists, return [0,0,0,0]."
-            },
-            options: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING, description: "The option label (A, B, C, D)" },
-                  text: { type: Type.STRING, description: "The text content of the option." }
-                },
-                required: ["id", "text"]
-              }
-            },
-            correctOptionId: { 
-              type: Type.STRING, 
-              description: "The correct option ID (A, B, C, or D). YOU MUST SOLVE THE QUESTION or find the answer key to determine this." 
-            },
-            explanation: {
-              type: Type.STRING,
-              description: "A brief explanation of why the answer is correct. Use LaTeX for math."
-            }
-          },
-          required: ["id", "text", "options", "correctOptionId"]
-        }
-      }
-    },
-    required: ["title", "questions"]
-  };
+const postToApi = async (path: string, body: ExtractRequest | AnswerKeyRequest | TutorRequest | HintRequest, signal?: AbortSignal) => {
+  const response = await fetch(`${API_BASE}/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null) as { error?: string } | null;
+    throw new ApiError(payload?.error || `The server responded with status ${response.status}.`, response.status);
+  }
+  return response;
+};
 
-  try {
-    // Using gemini-3-pro-preview strictly as requested
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "application/pdf",
-              data: base64Pdf,
-            },
-          },
-          {
-            text: `You are an expert academic tutor for JEE and NEET aspirants. 
-            Visually scan this PDF mock test. 
-            1. EXTRACT ALL QUESTIONS found in the document. Do not summarize. Do not stop after a few. If there are 50 questions, extract all 50.
-            2. Identify distinct questions and their multiple-choice options (A, B, C, D).
-            3. For each question, identify the 'boundingBox' [ymin, xmin, ymax, xmax] (0-1000 scale) strictly for the DIAGRAM, FIGURE, or GRAPH associated with the question. DO NOT include the question text or options in this box. If there is no visual diagram, return [0,0,0,0].
-            4. SOLVE each question to find the correct answer. 
-            5. Provide a brief explanation for the solution.
-            6. Structure the output strictly as JSON.
-            7. IMPORTANT: For any mathematical expressions, chemical formulas, or physics equations, YOU MUST USE LaTeX format enclosed in single dollar signs for inline math (e.g., $E=mc^2$) or double dollar signs for block math.`
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1, 
+interface PageBatch {
+  index: number;
+  startPage: number;
+  endPage: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withRetry = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      // A cancelled request must not be retried, and neither can a request the server rejected
+      if (signal?.aborted || (error instanceof ApiError && error.status < 500)) throw error;
+      lastError = error;
+      console.warn(`Extraction attempt ${attempt} of ${MAX_ATTEMPTS} failed`, error);
+      if (attempt < MAX_ATTEMPTS) await sleep(1000 * 2 ** (attempt - 1));
+      throwIfAborted(signal);
+    }
+  }
+  throw lastError;
+};
+
+// Runs the worker over every item with at most `limit` in flight. On the first failure it stops picking up new
+// items and calls onFailure (to abort the ones in flight), then waits for those to settle before rethrowing.
+const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  onFailure: () => void
+) => {
+  let next = 0;
+  const errors: unknown[] = [];
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (errors.length === 0 && next < items.length) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        if (errors.length === 0) onFailure();
+        errors.push(error);
+        return;
       }
-    });
+    }
+  });
+  await Promise.all(runners);
+  if (errors.length > 0) throw errors[0];
+};
+
+// Reads a streamed server response (see sendStream in server/index.ts), reporting the text received so far
+const readStream = async (response: Response, signal?: AbortSignal, onText?: (textSoFar: string) => void): Promise<string> => {
+  if (!response.body) throw new Error("The server sent an empty response.");
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
 
-    if (!response.candidates || response.candidates.length === 0) {
-      throw new Error("AI returned no candidates. The document might be too large or violate safety policies.");
+  let text = "";
+  let pending = "";
+  let finished = false;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    throwIfAborted(signal);
+    const lines = (pending + value).split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line) continue;
+      const event = JSON.parse(line) as StreamEvent;
+      if ('error' in event) throw new Error(event.error);
+      if ('done' in event) finished = true;
+      else text += event.text;
     }
+    onText?.(text);
+  }
 
-    const text = response.text;
-    if (!text) {
-      console.warn("Empty response text. Finish reason:", response.candidates[0]?.finishReason);
-      throw new Error("AI returned empty response. Please try a different or shorter PDF.");
+  if (!finished) {
+    throw new Error("The connection to the server closed before the response finished.");
+  }
+  return text;
+};
+
+// Streams the response so callers can see questions as soon as each one is complete
+const generateQuiz = async (
+  request: ExtractRequest,
+  signal?: AbortSignal,
+  onPartial?: (questions: Question[]) => void
+): Promise<QuizData> => {
+  let streamedCount = 0;
+  const text = await readStream(await postToApi("extract", request, signal), signal, onPartial && (textSoFar => {
+    const questions = parseStreamedQuestions(textSoFar);
+    if (questions.length !== streamedCount) {
+      streamedCount = questions.length;
+      onPartial(questions);
     }
+  }));
+  return JSON.parse(text) as QuizData;
+};
 
-    const data = JSON.parse(text) as QuizData;
-    return data;
+// Image uploads are sent as they are; PDF pages are rendered to JPEG
+const getPageImage = async (source: PaperSource, doc: PaperDocument, pageNumber: number): Promise<InlineImage> =>
+  'images' in source
+    ? source.images[pageNumber - 1]
+    : { mimeType: "image/jpeg", data: await renderPageToJpeg(doc, pageNumber) };
 
+// Short PDFs are sent whole, like their extraction; anything longer would pass the server's request limit
+const buildAnswerKeyRequest = async (source: PaperSource, doc: PaperDocument, signal?: AbortSignal): Promise<AnswerKeyRequest> => {
+  if ('pdf' in source && doc.numPages <= PAGES_PER_BATCH) return { pdf: source.pdf };
+  const pages: ExtractPage[] = [];
+  for (let page = Math.max(1, doc.numPages - ANSWER_KEY_PAGES + 1); page <= doc.numPages; page++) {
+    throwIfAborted(signal);
+    const { mimeType, data } = await getPageImage(source, doc, page);
+    pages.push({ pageNumber: page, image: data, mimeType });
+  }
+  return { pages };
+};
+
+// Never throws: a paper without a readable key simply falls back to the AI's answers
+const extractAnswerKey = async (source: PaperSource, doc: PaperDocument, signal?: AbortSignal): Promise<AnswerKeyEntry[] | null> => {
+  try {
+    const request = await buildAnswerKeyRequest(source, doc, signal);
+    const key = await withRetry(async () => {
+      const response = await postToApi("answer-key", request, signal);
+      return await response.json() as { found?: boolean; answers?: AnswerKeyEntry[] };
+    }, signal);
+
+    if (!key.found || !Array.isArray(key.answers)) return [];
+    return key.answers.filter(e => Number.isInteger(e?.questionNumber) && typeof e.answer === 'string' && e.answer.trim());
   } catch (error) {
-    console.error("Error parsing PDF with Gemini:", error);
-    throw error;
+    if (!signal?.aborted) console.warn("Could not read the answer key", error);
+    return null;
   }
 };
 
-export const getDetailedSolution = async (questionText: string, options: QuizOption[]): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY is missing");
+// Sends the batch's pages as images, plus the following page so questions that run over the edge are complete
+const extractBatch = async (
+  source: PaperSource,
+  doc: PaperDocument,
+  batch: PageBatch,
+  signal?: AbortSignal,
+  onPartial?: (questions: Question[]) => void
+): Promise<QuizData> => {
+  const contextPage = batch.endPage < doc.numPages ? batch.endPage + 1 : null;
+  const lastPage = contextPage ?? batch.endPage;
+  const pages: ExtractPage[] = [];
+
+  for (let page = batch.startPage; page <= lastPage; page++) {
+    throwIfAborted(signal);
+    const { mimeType, data } = await getPageImage(source, doc, page);
+    pages.push({ pageNumber: page, image: data, mimeType, contextOnly: page === contextPage || undefined });
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const prompt = `
-    You are an expert JEE/NEET tutor.
-    Here is a multiple choice question:
-    
-    Question: ${questionText}
-    
-    Options:
-    ${options.map(o => `${o.id}) ${o.text}`).join('\n')}
-    
-    Please provide a DETAILED, STEP-BY-STEP solution to this problem. 
-    1. Identify the key concept or formula required.
-    2. Show the calculation steps clearly.
-    3. Explain the reasoning.
-    4. Conclude with the correct option.
-    
-    FORMATTING RULES:
-    - Use Markdown for structure (headings, bold text).
-    - CRITICAL: Write ALL mathematical expressions, equations, and chemical formulas using LaTeX syntax.
-    - Enclose inline math in single dollar signs, e.g., $\\sqrt{x^2 + y^2}$.
-    - Enclose block math equations in double dollar signs, e.g., $$ F = ma $$.
-    - Do not use plain text for math (e.g., avoid writing "x squared", use $x^2$).
-    
-    Keep the tone professional, authoritative, and encouraging.
-  `;
+  const data = await generateQuiz({ pages, startPage: batch.startPage, endPage: batch.endPage }, signal, onPartial);
+  // Keep page numbers inside the batch even if the model mislabels them
+  data.questions = (data.questions || []).map(q => ({
+    ...q,
+    pageNumber: q.pageNumber && q.pageNumber >= batch.startPage && q.pageNumber <= lastPage ? q.pageNumber : batch.startPage,
+  }));
+  return data;
+};
 
-  try {
-    // Exclusively using gemini-3-pro-preview
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: prompt,
-      config: {
-        temperature: 0.2,
+// Loose fingerprint so the same question extracted from two neighbouring batches compares equal
+const questionKey = (question: Question) => (question.text || '').toLowerCase().replace(/[^a-z0-9]/g, '').slice(0, 80);
+
+// Joins batch results in page order, dropping questions repeated across a batch boundary, and renumbers them
+const mergeBatches = (results: QuizData[]): QuizData => {
+  const questions: Question[] = [];
+  let previousBatchKeys = new Map<string, number>();
+
+  results.forEach(result => {
+    const batchKeys = new Map<string, number>();
+    (result.questions || []).forEach(question => {
+      const key = questionKey(question);
+      const duplicateIndex = key ? previousBatchKeys.get(key) : undefined;
+      if (duplicateIndex !== undefined) {
+        // Keep whichever copy was read more completely
+        if (question.text.length > questions[duplicateIndex].text.length) questions[duplicateIndex] = question;
+        return;
       }
+      if (key) batchKeys.set(key, questions.length);
+      questions.push(question);
     });
+    previousBatchKeys = batchKeys;
+  });
+
+  const header = results.find(r => r.title);
+  return {
+    title: header?.title || "Mock Test",
+    topic: header?.topic,
+    questions: questions.map((q, index) => ({ ...q, id: index + 1 })),
+    // Several batches may report the same section; the validator keeps the first of each name
+    sections: results.flatMap(r => r.sections || []),
+  };
+};
+
+// Number of extracted questions shown as a live preview while extraction runs
+const PREVIEW_SIZE = 3;
+
+const extractPaper = async (
+  source: PaperSource,
+  onProgress?: (progress: ExtractionProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> => {
+  let doc: PaperDocument | null = null;
+  let answerKey: Promise<AnswerKeyEntry[] | null> | undefined;
+  // Every request of this extraction listens to this, so a failed batch can stop the rest; cancelling aborts it too
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  const requestSignal = controller.signal;
+
+  // Questions per batch: final results for finished batches, streamed-so-far for running ones
+  const batchQuestions = new Map<number, Question[]>();
+  let completedBatches = 0;
+  let totalBatches = 0;
+  let currentPages: [number, number] | undefined;
+
+  const report = (stage: ExtractionProgress['stage']) => {
+    const ordered = [...batchQuestions.entries()].sort(([a], [b]) => a - b).flatMap(([, questions]) => questions);
+    const latest = ordered[ordered.length - 1];
+    onProgress?.({
+      stage,
+      completedBatches,
+      totalBatches,
+      questionsFound: ordered.length,
+      currentPages,
+      currentPage: latest?.pageNumber,
+      previewQuestions: ordered.slice(0, PREVIEW_SIZE),
+    });
+  };
+
+  try {
+    report('preparing');
+    doc = await loadPaperDocument(source);
+    throwIfAborted(requestSignal);
+    const pageCount = doc.numPages;
+    const keyEntries = extractAnswerKey(source, doc, requestSignal);
+    answerKey = keyEntries;
 
-    if (response.text) return response.text;
-    throw new Error("Empty response from Pro model");
+    const finish = async (results: QuizData[]): Promise<ExtractionResult> => {
+      const validated = validateQuizData(mergeBatches(results), pageCount);
+      const entries = await keyEntries;
+      throwIfAborted(requestSignal);
+      const reconciled = applyAnswerKey(validated.quizData, entries);
+      const warnings = [...validated.warnings, ...reconciled.warnings];
+      if (entries === null) {
+        warnings.push({ severity: 'warning', message: "The answer key could not be checked, so all answers are AI-solved." });
+      }
+      return { quizData: reconciled.quizData, warnings };
+    };
+
+    // Short PDFs go to the model as the original file in one request; photographed papers always go as pages
+    if ('pdf' in source && pageCount <= PAGES_PER_BATCH) {
+      totalBatches = 1;
+      currentPages = [1, pageCount];
+      report('extracting');
+      const data = await withRetry(() => generateQuiz({ pdf: source.pdf }, requestSignal, questions => {
+        batchQuestions.set(0, questions);
+        report('extracting');
+      }), requestSignal);
+      completedBatches = 1;
+      report('merging');
+      const result = await finish([data]);
+      batchQuestions.set(0, result.quizData.questions);
+      report('done');
+      return result;
+    }
+
+    const batches: PageBatch[] = [];
+    for (let start = 1; start <= pageCount; start += PAGES_PER_BATCH) {
+      batches.push({ index: batches.length, startPage: start, endPage: Math.min(pageCount, start + PAGES_PER_BATCH - 1) });
+    }
+    totalBatches = batches.length;
+
+    const results: QuizData[] = new Array(batches.length);
+    const paper = doc;
+
+    await runWithConcurrency(batches, MAX_CONCURRENT_BATCHES, async batch => {
+      currentPages = [batch.startPage, batch.endPage];
+      report('extracting');
+      try {
+        results[batch.index] = await withRetry(() => {
+          // A retry starts the batch's stream over
+          batchQuestions.delete(batch.index);
+          return extractBatch(source, paper, batch, requestSignal, questions => {
+            batchQuestions.set(batch.index, questions);
+            report('extracting');
+          });
+        }, requestSignal);
+      } catch (error: any) {
+        if (requestSignal.aborted) throw error;
+        throw new Error(`Failed to extract pages ${batch.startPage}-${batch.endPage}: ${error?.message || error}`);
+      }
+      completedBatches++;
+      batchQuestions.set(batch.index, results[batch.index].questions);
+      report('extracting');
+    }, abort);
+
+    report('merging');
+    const result = await finish(results);
+    batchQuestions.clear();
+    batchQuestions.set(0, result.quizData.questions);
+    report('done');
+    return result;
 
   } catch (error) {
-    console.error("Error generating detailed solution:", error);
-    return "Error generating solution. Please try again.";
+    if (signal?.aborted) throw new DOMException("Extraction cancelled.", "AbortError");
+    console.error("Error extracting quiz:", error);
+    throw error;
+  } finally {
+    // Nothing may still be rendering pages when the document goes; the answer key settles without throwing
+    abort();
+    signal?.removeEventListener('abort', abort);
+    await answerKey;
+    doc?.destroy();
   }
-};
\ No newline at end of file
+};
+
+const tutor = async (request: TutorRequest, onText: (textSoFar: string) => void, signal?: AbortSignal): Promise<string> =>
+  readStream(await postToApi("tutor", request, signal), signal, onText);
+
+const getHint = async (request: HintRequest, signal?: AbortSignal): Promise<string> => {
+  const response = await postToApi("hint", request, signal);
+  const { text } = await response.json() as { text?: string };
+  if (text) return text;
+  throw new Error("Empty hint from the server");
+};
+
+export const createGeminiProvider = (): AIProvider => ({
+  id: 'gemini',
+  name: 'Gemini',
+  extractQuiz: extractPaper,
+  tutor,
+  hint: getHint,
+});
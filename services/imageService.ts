@@ -0,0 +1,44 @@
+import { InlineImage } from "../types";
+
+// Formats both the browser and the model can read. HEIC photos have to be converted first (iPhones do it
+// when sharing or with the "Most Compatible" camera setting), since most browsers can't decode them.
+const PAGE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Every page is re-encoded as JPEG, downscaled to fit this edge, so a batch of pages stays within the server's
+// request limit (see MAX_DOCUMENT_BODY_BYTES in server/index.ts); 2000px still keeps small print legible
+const MAX_PAGE_EDGE = 2000;
+
+export const isPageImage = (file: File) => PAGE_IMAGE_TYPES.includes(file.type);
+
+export const isHeicImage = (file: File) => /^image\/hei[cf]$/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+const readPageImage = async (file: File): Promise<InlineImage> => {
+  // Decoding with the EXIF rotation applied, so the re-encoded page comes out upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => {
+    throw new Error(`Could not read ${file.name}. It may be damaged or in an unsupported format.`);
+  });
+  try {
+    const fit = Math.min(1, MAX_PAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * fit);
+    canvas.height = Math.round(bitmap.height * fit);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas 2D context is unavailable.");
+    // JPEG has no transparency; transparent parts of a screenshot would otherwise turn black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { mimeType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', 0.85).split(',')[1] };
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Pages come out in file-name order as a starting point; the upload screen lets the order be checked and changed.
+// One at a time, since a decoded phone photo can take tens of megabytes.
+export const readPageImages = async (files: File[]): Promise<InlineImage[]> => {
+  const ordered = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const pages: InlineImage[] = [];
+  for (const file of ordered) pages.push(await readPageImage(file));
+  return pages;
+};
@@ -0,0 +1,196 @@
+import { AnswerKeyEntry, ExamSection, HintLevel, HintRequest, Question, QuizData, TutorRequest } from "../types";
+
+// The model names each question's section; ids are only given out by validateQuizData
+interface ExtractedPaper extends Omit<QuizData, 'questions' | 'sections'> {
+  sections: Omit<ExamSection, 'id'>[];
+  questions: (Question & { section?: string })[];
+}
+
+// A short paper in the shape the extraction model returns, covering every question type, a diagram crop,
+// sections with an attempt limit, topic tags and one answer the printed key disagrees with.
+export const MOCK_PAPER: ExtractedPaper = {
+  title: "Offline Mock Test",
+  topic: "JEE Main Practice (fixture)",
+  sections: [
+    { name: "Section A", instructions: "All questions are compulsory." },
+    { name: "Section B", instructions: "Attempt any 2 of the 3 numerical questions.", attemptLimit: 2 },
+  ],
+  questions: [
+    {
+      id: 1,
+      printedNumber: 1,
+      section: "Section A",
+      type: "SINGLE_CORRECT",
+      subject: "PHYSICS",
+      chapter: "Laws of Motion",
+      difficulty: "EASY",
+      text: "A block of mass $m = 2\\,\\text{kg}$ rests on the incline shown. If the block is in equilibrium, the friction force on it is:",
+      pageNumber: 1,
+      boundingBox: [120, 250, 380, 750],
+      options: [
+        { id: "A", text: "$mg\\sin\\theta$" },
+        { id: "B", text: "$mg\\cos\\theta$" },
+        { id: "C", text: "$mg\\tan\\theta$" },
+        { id: "D", text: "Zero" },
+      ],
+      correctOptionId: "A",
+      confidence: 0.95,
+      explanation: "Along the incline, friction balances the component of gravity: $f = mg\\sin\\theta$.",
+    },
+    {
+      id: 2,
+      printedNumber: 2,
+      section: "Section A",
+      type: "SINGLE_CORRECT",
+      subject: "CHEMISTRY",
+      chapter: "Chemical Bonding",
+      difficulty: "MEDIUM",
+      text: "Which of the following molecules has a zero dipole moment?",
+      pageNumber: 1,
+      options: [
+        { id: "A", text: "$\\mathrm{NH_3}$" },
+        { id: "B", text: "$\\mathrm{H_2O}$" },
+        { id: "C", text: "$\\mathrm{CO_2}$" },
+        { id: "D", text: "$\\mathrm{CHCl_3}$" },
+      ],
+      correctOptionId: "C",
+      confidence: 0.9,
+      explanation: "$\\mathrm{CO_2}$ is linear, so the two bond dipoles cancel.",
+    },
+    {
+      id: 3,
+      printedNumber: 3,
+      section: "Section A",
+      type: "MULTIPLE_CORRECT",
+      subject: "MATHS",
+      chapter: "Complex Numbers",
+      difficulty: "HARD",
+      text: "If $z^2 + 1 = 0$, then which of the following are true?",
+      pageNumber: 1,
+      options: [
+        { id: "A", text: "$|z| = 1$" },
+        { id: "B", text: "$z = \\pm i$" },
+        { id: "C", text: "$z$ is real" },
+        { id: "D", text: "$\\bar{z} = -z$" },
+      ],
+      correctOptionId: "A",
+      correctOptionIds: ["A", "B", "D"],
+      confidence: 0.85,
+      explanation: "$z = \\pm i$, so $|z| = 1$ and $\\bar{z} = -z$; $z$ is not real.",
+    },
+    {
+      id: 4,
+      printedNumber: 4,
+      section: "Section A",
+      type: "SINGLE_CORRECT",
+      subject: "PHYSICS",
+      chapter: "Current Electricity",
+      difficulty: "MEDIUM",
+      text: "Two resistors of $4\\,\\Omega$ and $12\\,\\Omega$ are connected in parallel. The equivalent resistance is:",
+      pageNumber: 1,
+      options: [
+        { id: "A", text: "$16\\,\\Omega$" },
+        { id: "B", text: "$3\\,\\Omega$" },
+        { id: "C", text: "$8\\,\\Omega$" },
+        { id: "D", text: "$48\\,\\Omega$" },
+      ],
+      // Deliberately wrong, so the printed key overrides it and the report shows a disagreement
+      correctOptionId: "C",
+      confidence: 0.4,
+      explanation: "$\\frac{1}{R} = \\frac{1}{4} + \\frac{1}{12}$.",
+    },
+    {
+      id: 5,
+      printedNumber: 5,
+      section: "Section B",
+      type: "NUMERICAL",
+      subject: "MATHS",
+      chapter: "Sequences and Series",
+      difficulty: "EASY",
+      text: "Find the sum of the first 10 natural numbers.",
+      pageNumber: 1,
+      options: [],
+      correctOptionId: "",
+      numericAnswer: 55,
+      confidence: 0.99,
+      explanation: "$\\frac{n(n+1)}{2} = \\frac{10 \\cdot 11}{2} = 55$.",
+    },
+    {
+      id: 6,
+      printedNumber: 6,
+      section: "Section B",
+      type: "NUMERICAL",
+      subject: "CHEMISTRY",
+      chapter: "Some Basic Concepts of Chemistry",
+      difficulty: "MEDIUM",
+      text: "How many moles of $\\mathrm{H_2O}$ are in $36\\,\\text{g}$ of water?",
+      pageNumber: 1,
+      options: [],
+      correctOptionId: "",
+      numericAnswer: 2,
+      confidence: 0.97,
+      explanation: "Molar mass of water is $18\\,\\text{g/mol}$, so $36 / 18 = 2$.",
+    },
+    {
+      id: 7,
+      printedNumber: 7,
+      section: "Section B",
+      type: "NUMERICAL",
+      subject: "PHYSICS",
+      chapter: "Motion in a Straight Line",
+      difficulty: "HARD",
+      text: "A ball is dropped from rest. Taking $g = 10\\,\\text{m/s}^2$, how far (in m) does it fall in the first $3\\,\\text{s}$?",
+      pageNumber: 1,
+      options: [],
+      correctOptionId: "",
+      numericAnswer: 45,
+      confidence: 0.96,
+      explanation: "$s = \\frac{1}{2}gt^2 = \\frac{1}{2} \\cdot 10 \\cdot 9 = 45\\,\\text{m}$.",
+    },
+  ],
+};
+
+export const MOCK_ANSWER_KEY: AnswerKeyEntry[] = [
+  { questionNumber: 1, answer: "A" },
+  { questionNumber: 2, answer: "C" },
+  { questionNumber: 3, answer: "A, B, D" },
+  { questionNumber: 4, answer: "B" },
+  { questionNumber: 5, answer: "55" },
+  { questionNumber: 6, answer: "2" },
+  { questionNumber: 7, answer: "45" },
+];
+
+// Canned tutor replies: a hint when the student asks for one, otherwise a worked outline ending in the graded answer
+export const buildMockTutorReply = ({ context, messages }: TutorRequest) => {
+  const { questionText, options, correctAnswer, studentAnswer, image } = context;
+  const question = `${questionText.slice(0, 120)}${questionText.length > 120 ? '...' : ''}`;
+  const note = `*This is a canned reply from the offline mock provider. Set \`AI_PROVIDER\` to \`gemini\` for a real tutor.*`;
+
+  if (/hint/i.test(messages[messages.length - 1].text)) {
+    return `${note}
+
+**Hint:** start by writing down what *${question}* gives you, then pick the relation that links it to what is asked, for example $F = ma$.`;
+  }
+
+  return `${note}
+
+### Key Concept
+Identify the relevant relation, for example $$ F = ma $$
+
+### Steps
+1. Read the question: *${question}*${image ? ` (the question's ${image.region} was attached)` : ''}
+2. ${options.length > 0 ? `Compare against the ${options.length} options (${options.map(o => o.id).join(', ')}).` : 'Evaluate the final numerical value.'}
+3. ${studentAnswer ? `You answered **${studentAnswer}**.` : 'You skipped this question.'}
+
+### Answer
+The graded answer is **${correctAnswer}**.`;
+};
+
+const MOCK_HINTS: Record<HintLevel, string> = {
+  CONCEPT: "Think about which law connects the quantities given in the question, for example Newton's second law $F = ma$.",
+  FIRST_STEP: "Write that law down with the values from the question substituted in, keeping track of units.",
+  NEAR_SOLUTION: "Rearrange for the unknown; only the final arithmetic or the choice of option is left.",
+};
+
+export const buildMockHint = ({ level, previousHints }: HintRequest) =>
+  `*(Offline mock, hint ${previousHints.length + 1})* ${MOCK_HINTS[level]}`;
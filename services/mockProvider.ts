@@ -0,0 +1,81 @@
+import { ExtractionProgress, ExtractionResult, PaperSource, Question } from "../types";
+import { AIProvider, throwIfAborted } from "./aiProvider";
+import { loadPaperDocument } from "./pdfService";
+import { validateQuizData } from "./quizValidator";
+import { applyAnswerKey } from "./answerKeyService";
+import { MOCK_ANSWER_KEY, MOCK_PAPER, buildMockHint, buildMockTutorReply } from "./mockFixtures";
+
+// Pause between streamed questions so the progress screen can be seen working
+const STREAM_DELAY_MS = 300;
+const TUTOR_WORD_DELAY_MS = 15;
+const PREVIEW_SIZE = 3;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException("Extraction cancelled.", "AbortError"));
+  };
+  // One signal covers every wait of an extraction or tutor reply, so each wait takes its listener off again
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Ignores the document's content and returns the fixture paper, sent through the same validation and
+// answer-key steps as a real extraction. Only the page count is read, so diagram crops land on a real page.
+const extractQuiz = async (
+  source: PaperSource,
+  onProgress?: (progress: ExtractionProgress) => void,
+  signal?: AbortSignal
+): Promise<ExtractionResult> => {
+  const questions: Question[] = MOCK_PAPER.questions;
+  const report = (stage: ExtractionProgress['stage'], found: Question[]) => onProgress?.({
+    stage,
+    completedBatches: stage === 'extracting' ? 0 : 1,
+    totalBatches: 1,
+    questionsFound: found.length,
+    currentPages: [1, 1],
+    currentPage: found[found.length - 1]?.pageNumber,
+    previewQuestions: found.slice(0, PREVIEW_SIZE),
+  });
+
+  report('preparing', []);
+  const doc = await loadPaperDocument(source);
+  const pageCount = doc.numPages;
+  doc.destroy();
+  throwIfAborted(signal);
+
+  for (let count = 1; count <= questions.length; count++) {
+    await wait(STREAM_DELAY_MS, signal);
+    report('extracting', questions.slice(0, count));
+  }
+
+  report('merging', questions);
+  const validated = validateQuizData(MOCK_PAPER, pageCount);
+  const reconciled = applyAnswerKey(validated.quizData, MOCK_ANSWER_KEY);
+  report('done', reconciled.quizData.questions);
+  return { quizData: reconciled.quizData, warnings: [...validated.warnings, ...reconciled.warnings] };
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  name: 'offline mock',
+  extractQuiz,
+  // Streams the canned reply word by word, like the real tutor
+  tutor: async (request, onText, signal) => {
+    const reply = buildMockTutorReply(request);
+    const words = reply.split(/(?<=\s)/);
+    await wait(STREAM_DELAY_MS, signal);
+    for (let count = 1; count <= words.length; count++) {
+      onText(words.slice(0, count).join(''));
+      await wait(TUTOR_WORD_DELAY_MS, signal);
+    }
+    return reply;
+  },
+  hint: async (request, signal) => {
+    await wait(STREAM_DELAY_MS, signal);
+    return buildMockHint(request);
+  },
+});
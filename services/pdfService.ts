@@ -0,0 +1,137 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { InlineImage, PaperSource, Question, SavedPaper } from '../types';
+
+// Set worker source for PDF.js - MUST MATCH the version in index.html import map
+pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.8.69/build/pdf.worker.min.mjs`;
+
+// A loaded paper whose pages draw the same way whether it was uploaded as a PDF or as images
+export interface PaperDocument {
+  numPages: number;
+  // Draws a whole page, or just the crop of a [ymin, xmin, ymax, xmax] box on it, resizing the canvas to fit
+  renderPage: (pageNumber: number, canvas: HTMLCanvasElement, scale: number, boundingBox?: number[]) => Promise<void>;
+  destroy: () => void;
+}
+
+// Image pages are sized like A4 PDF pages at scale 1, so callers' render scales give similar resolutions for both
+const IMAGE_PAGE_LONG_EDGE = 842;
+
+type CropRect = { x: number; y: number; width: number; height: number };
+
+const getRenderRect = (width: number, height: number, boundingBox?: number[]): CropRect =>
+  boundingBox ? getDiagramCropRect(boundingBox, width, height) : { x: 0, y: 0, width, height };
+
+const prepareCanvas = (canvas: HTMLCanvasElement, rect: CropRect) => {
+  canvas.width = rect.width;
+  canvas.height = rect.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas 2D context is unavailable.");
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  return context;
+};
+
+const loadPdfPages = async (base64Pdf: string): Promise<PaperDocument> => {
+  const doc = await pdfjsLib.getDocument({ data: atob(base64Pdf) }).promise;
+  return {
+    numPages: doc.numPages,
+    renderPage: async (pageNumber, canvas, scale, boundingBox) => {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const rect = getRenderRect(viewport.width, viewport.height, boundingBox);
+      const context = prepareCanvas(canvas, rect);
+      await page.render({ canvasContext: context, viewport, transform: [1, 0, 0, 1, -rect.x, -rect.y] } as any).promise;
+      page.cleanup();
+    },
+    destroy: () => { doc.destroy(); },
+  };
+};
+
+const loadImagePages = async (images: InlineImage[]): Promise<PaperDocument> => {
+  // Decoded on first use, since a long paper may have dozens of photos
+  const bitmaps = new Map<number, Promise<ImageBitmap>>();
+  const getBitmap = (pageNumber: number) => {
+    let bitmap = bitmaps.get(pageNumber);
+    if (!bitmap) {
+      const image = images[pageNumber - 1];
+      if (!image) throw new Error(`Page ${pageNumber} does not exist.`);
+      const bytes = Uint8Array.from(atob(image.data), c => c.charCodeAt(0));
+      bitmap = createImageBitmap(new Blob([bytes], { type: image.mimeType }));
+      bitmaps.set(pageNumber, bitmap);
+    }
+    return bitmap;
+  };
+
+  return {
+    numPages: images.length,
+    renderPage: async (pageNumber, canvas, scale, boundingBox) => {
+      const bitmap = await getBitmap(pageNumber);
+      const fit = IMAGE_PAGE_LONG_EDGE * scale / Math.max(bitmap.width, bitmap.height);
+      const rect = getRenderRect(bitmap.width * fit, bitmap.height * fit, boundingBox);
+      const context = prepareCanvas(canvas, rect);
+      context.drawImage(bitmap, rect.x / fit, rect.y / fit, rect.width / fit, rect.height / fit, 0, 0, canvas.width, canvas.height);
+    },
+    destroy: () => bitmaps.forEach(bitmap => bitmap.then(b => b.close(), () => {})),
+  };
+};
+
+export const loadPaperDocument = (source: PaperSource): Promise<PaperDocument> =>
+  'pdf' in source ? loadPdfPages(source.pdf) : loadImagePages(source.images);
+
+// Where a saved paper's pages come from; null for bundle imports, which only carry diagram crops
+export const getPaperSource = (paper: SavedPaper): PaperSource | null => {
+  if (paper.pdfBase64) return { pdf: paper.pdfBase64 };
+  return paper.pageImages?.length ? { images: paper.pageImages } : null;
+};
+
+// Renders a single page to a base64 JPEG (without the data URL prefix) for sending to the model
+export const renderPageToJpeg = async (doc: PaperDocument, pageNumber: number, scale: number = 1.5): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  await doc.renderPage(pageNumber, canvas, scale);
+  return canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+};
+
+// Diagram crops are padded (0-1000 scale) so labels at the edge of the box aren't cut off
+const DIAGRAM_PADDING = 20;
+
+// Pixel rectangle of a [ymin, xmin, ymax, xmax] diagram box on a page of the given size
+export const getDiagramCropRect = (boundingBox: number[], width: number, height: number) => {
+  const [ymin, xmin, ymax, xmax] = boundingBox;
+  const x = Math.max(0, (xmin - DIAGRAM_PADDING) / 1000 * width);
+  const y = Math.max(0, (ymin - DIAGRAM_PADDING) / 1000 * height);
+  return {
+    x,
+    y,
+    width: Math.min(width - x, ((xmax + DIAGRAM_PADDING) - (xmin - DIAGRAM_PADDING)) / 1000 * width),
+    height: Math.min(height - y, ((ymax + DIAGRAM_PADDING) - (ymin - DIAGRAM_PADDING)) / 1000 * height),
+  };
+};
+
+// An all-zero box means the extraction found no diagram for the question
+export const hasDiagramBox = (question: Question) => !!question.boundingBox?.some(v => v !== 0);
+
+// Renders just the diagram region of a page to a PNG data URL, for use without the paper's pages
+export const renderDiagramToDataUrl = async (
+  doc: PaperDocument,
+  pageNumber: number,
+  boundingBox: number[],
+  scale: number = 2
+): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  await doc.renderPage(pageNumber, canvas, scale, boundingBox);
+  return canvas.toDataURL('image/png');
+};
+
+// Crops every question's diagram from the paper, keyed by question id; questions without one are left out
+export const renderQuestionDiagrams = async (source: PaperSource, questions: Question[]): Promise<Record<number, string>> => {
+  const diagrams: Record<number, string> = {};
+  const doc = await loadPaperDocument(source);
+  try {
+    for (const question of questions) {
+      if (hasDiagramBox(question)) {
+        diagrams[question.id] = await renderDiagramToDataUrl(doc, question.pageNumber || 1, question.boundingBox!);
+      }
+    }
+  } finally {
+    doc.destroy();
+  }
+  return diagrams;
+};
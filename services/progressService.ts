@@ -0,0 +1,134 @@
+import { QuizAttempt, SavedPaper, Subject } from "../types";
+import { scoreQuiz } from "./scoringService";
+import { UNTAGGED, getTopicBreakdown } from "./topicService";
+import { getAttemptQuiz } from "./retakeService";
+
+export interface CompletedAttempt {
+  paper: SavedPaper;
+  attempt: QuizAttempt;
+}
+
+export interface AttemptPoint {
+  attemptId: string;
+  label: string; // Short date for chart axes
+  title: string;
+  completedAt: number;
+  score: number;
+  maxMarks: number;
+  percentage: number; // Score as a share of the maximum, 0-100
+  accuracy: number; // Correct share of attempted questions, 0-100
+  averageSeconds: number; // Per question that had any time spent on it
+  subjectAccuracy: Partial<Record<Subject, number>>; // Only subjects attempted in this paper
+}
+
+export interface ConceptProgress {
+  key: string;
+  label: string;
+  subject?: Subject;
+  attempted: number;
+  missed: number; // Attempted but not fully correct, summed over every attempt
+  accuracy: number; // All-time, 0-100
+  recentAccuracy: number; // Over the most recent attempts that covered it, 0-100
+  attemptsSeen: number;
+}
+
+export interface ProgressReport {
+  attempts: AttemptPoint[]; // Oldest first
+  subjects: Subject[]; // Every subject seen in any attempt
+  concepts: ConceptProgress[]; // Most often missed first
+  totalAttempted: number;
+  overallAccuracy: number;
+  averageSeconds: number;
+}
+
+// How many of a concept's latest attempts count as "recent"
+const RECENT_WINDOW = 3;
+
+const toPercent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+const formatShortDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+// Every attempt is re-graded against the paper as it is now, so fixes made in the editor show up in old results
+export const buildProgressReport = (completed: CompletedAttempt[]): ProgressReport => {
+  const ordered = [...completed].sort(
+    (a, b) => (a.attempt.completedAt ?? a.attempt.updatedAt) - (b.attempt.completedAt ?? b.attempt.updatedAt)
+  );
+  const subjects = new Set<Subject>();
+  // Per concept, one { attempted, correct } entry per attempt that covered it, oldest first
+  const conceptHistory = new Map<string, { label: string; subject?: Subject; entries: { attempted: number; correct: number }[] }>();
+  let totalAttempted = 0;
+  let totalCorrect = 0;
+  let timedQuestions = 0;
+  let totalSeconds = 0;
+
+  const attempts = ordered.map(({ paper, attempt }) => {
+    const quizData = getAttemptQuiz(paper, attempt);
+    const results = scoreQuiz(quizData, attempt.answers);
+    const breakdown = getTopicBreakdown(quizData, results);
+    const attempted = results.total - results.skipped;
+    const times = quizData.questions.map(q => attempt.questionTimes?.[q.id] || 0).filter(secs => secs > 0);
+    const seconds = times.reduce((sum, secs) => sum + secs, 0);
+
+    totalAttempted += attempted;
+    totalCorrect += results.correct;
+    timedQuestions += times.length;
+    totalSeconds += seconds;
+
+    const subjectAccuracy: Partial<Record<Subject, number>> = {};
+    breakdown.subjects.forEach(stats => {
+      if (!stats.subject || stats.attempted === 0) return;
+      subjects.add(stats.subject);
+      subjectAccuracy[stats.subject] = stats.accuracy;
+    });
+
+    breakdown.chapters.forEach(stats => {
+      // Questions with no tags at all say nothing about what to revise
+      if (stats.attempted === 0 || (!stats.subject && stats.label === UNTAGGED)) return;
+      const history = conceptHistory.get(stats.key) ?? { label: stats.label, subject: stats.subject, entries: [] };
+      history.entries.push({ attempted: stats.attempted, correct: stats.correct });
+      conceptHistory.set(stats.key, history);
+    });
+
+    const completedAt = attempt.completedAt ?? attempt.updatedAt;
+    const point: AttemptPoint = {
+      attemptId: attempt.id,
+      label: formatShortDate(completedAt),
+      title: quizData.title,
+      completedAt,
+      score: results.score,
+      maxMarks: results.maxMarks,
+      percentage: toPercent(Math.max(0, results.score), results.maxMarks),
+      accuracy: toPercent(results.correct, attempted),
+      averageSeconds: times.length > 0 ? Math.round(seconds / times.length) : 0,
+      subjectAccuracy,
+    };
+    return point;
+  });
+
+  const concepts = [...conceptHistory.entries()].map(([key, { label, subject, entries }]) => {
+    const sum = (list: typeof entries, field: 'attempted' | 'correct') => list.reduce((total, e) => total + e[field], 0);
+    const recent = entries.slice(-RECENT_WINDOW);
+    const attempted = sum(entries, 'attempted');
+    const concept: ConceptProgress = {
+      key,
+      label,
+      subject,
+      attempted,
+      missed: attempted - sum(entries, 'correct'),
+      accuracy: toPercent(sum(entries, 'correct'), attempted),
+      recentAccuracy: toPercent(sum(recent, 'correct'), sum(recent, 'attempted')),
+      attemptsSeen: entries.length,
+    };
+    return concept;
+  }).sort((a, b) => b.missed - a.missed || a.accuracy - b.accuracy);
+
+  return {
+    attempts,
+    subjects: [...subjects],
+    concepts,
+    totalAttempted,
+    overallAccuracy: toPercent(totalCorrect, totalAttempted),
+    averageSeconds: timedQuestions > 0 ? Math.round(totalSeconds / timedQuestions) : 0,
+  };
+};
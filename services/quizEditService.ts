@@ -0,0 +1,110 @@
+import { Question, QuestionType, QuizData } from "../types";
+import { getCorrectOptionIds, getQuestionType } from "./scoringService";
+import { OPTION_LABELS } from "./quizValidator";
+
+// Question and option ids are never renumbered here: saved attempts key their answers by them, so edits must keep them stable.
+
+export const MAX_OPTIONS = OPTION_LABELS.length;
+
+export const moveQuestion = (questions: Question[], index: number, offset: number): Question[] => {
+  const target = index + offset;
+  if (target < 0 || target >= questions.length) return questions;
+  const next = [...questions];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Folds the question after `index` into it, for when extraction split one question in two
+export const mergeWithNext = (questions: Question[], index: number): Question[] => {
+  const first = questions[index];
+  const second = questions[index + 1];
+  if (!first || !second) return questions;
+
+  const hasDiagram = (q: Question) => !!q.boundingBox?.some(v => v !== 0);
+  const merged: Question = {
+    ...first,
+    text: `${first.text}\n\n${second.text}`,
+    options: first.options.length > 0 ? first.options : second.options,
+    correctOptionId: first.options.length > 0 ? first.correctOptionId : second.correctOptionId,
+    correctOptionIds: first.options.length > 0 ? first.correctOptionIds : second.correctOptionIds,
+    numericAnswer: first.numericAnswer ?? second.numericAnswer,
+    explanation: [first.explanation, second.explanation].filter(Boolean).join('\n\n') || undefined,
+    boundingBox: hasDiagram(first) ? first.boundingBox : second.boundingBox,
+    pageNumber: hasDiagram(first) ? first.pageNumber : second.pageNumber,
+  };
+  return [...questions.slice(0, index), merged, ...questions.slice(index + 2)];
+};
+
+// Changing the answer by hand settles any key-vs-AI disagreement
+const markManual = (question: Question): Question => {
+  const next: Question = { ...question, answerSource: 'MANUAL' };
+  delete next.aiAnswer;
+  return next;
+};
+
+export const setQuestionType = (question: Question, type: QuestionType): Question => {
+  const next: Question = { ...question, type };
+  if (type === 'NUMERICAL') {
+    next.correctOptionId = '';
+    delete next.correctOptionIds;
+  } else if (type === 'MULTIPLE_CORRECT') {
+    next.correctOptionIds = getCorrectOptionIds(question);
+  } else {
+    next.correctOptionId = getCorrectOptionIds(question)[0] ?? '';
+    delete next.correctOptionIds;
+  }
+  return next;
+};
+
+// Single correct: select `optionId`. Multiple correct: toggle it.
+export const toggleCorrectOption = (question: Question, optionId: string): Question => {
+  if (getQuestionType(question) !== 'MULTIPLE_CORRECT') return markManual({ ...question, correctOptionId: optionId });
+
+  const current = getCorrectOptionIds(question);
+  const ids = current.includes(optionId) ? current.filter(id => id !== optionId) : [...current, optionId].sort();
+  return markManual({ ...question, correctOptionIds: ids, correctOptionId: ids[0] ?? '' });
+};
+
+export const setNumericAnswer = (question: Question, value: number | undefined): Question => {
+  const next = markManual({ ...question, numericAnswer: value });
+  if (value === undefined) delete next.numericAnswer;
+  return next;
+};
+
+// Takes the first free label, so an option added after a removal fills the gap
+export const addOption = (question: Question): Question => {
+  const id = OPTION_LABELS.find(label => !question.options.some(o => o.id === label));
+  if (!id) return question;
+  const options = [...question.options, { id, text: '' }]
+    .sort((a, b) => OPTION_LABELS.indexOf(a.id) - OPTION_LABELS.indexOf(b.id));
+  return { ...question, options };
+};
+
+// The other options keep their labels (e.g. A, C, D), since past attempts stored answers under them
+export const removeOption = (question: Question, optionId: string): Question => {
+  const remaining = question.options.filter(o => o.id !== optionId);
+  const correctIds = getCorrectOptionIds(question).filter(id => id !== optionId);
+
+  const next: Question = {
+    ...question,
+    options: remaining,
+    correctOptionId: correctIds[0] ?? '',
+  };
+  if (getQuestionType(question) === 'MULTIPLE_CORRECT') next.correctOptionIds = correctIds;
+  return next;
+};
+
+// "Attempt any N" only makes sense while a section has more than N questions; deleting or merging questions can
+// leave it with N or fewer, and the limit is then dropped (the same rule the validator and setup screen apply)
+export const fitSectionLimits = (quizData: QuizData): QuizData => {
+  if (!quizData.sections) return quizData;
+  return {
+    ...quizData,
+    sections: quizData.sections.map(section => {
+      const count = quizData.questions.filter(q => q.sectionId === section.id).length;
+      if (!section.attemptLimit || section.attemptLimit < count) return section;
+      const { attemptLimit, ...rest } = section;
+      return rest;
+    }),
+  };
+};
@@ -0,0 +1,275 @@
+import {
+  Difficulty, ExamSection, ExtractionWarning, MarkingScheme, Question, QuestionType, QuizData, QuizOption, Subject
+} from "../types";
+import { MARKING_SCHEMES } from "./scoringService";
+
+export const QUESTION_TYPES: QuestionType[] = ['SINGLE_CORRECT', 'MULTIPLE_CORRECT', 'NUMERICAL'];
+export const OPTION_LABELS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+export const DIFFICULTIES: Difficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+const EMPTY_BOX = [0, 0, 0, 0];
+// Boxes thinner than this (on the 0-1000 scale) are almost certainly misreads
+const MIN_BOX_SIZE = 10;
+
+export interface ValidationResult {
+  quizData: QuizData;
+  warnings: ExtractionWarning[];
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// "(a)", "a)", " B. " -> "A", "B"
+const normalizeOptionId = (id: unknown) =>
+  typeof id === 'string' ? id.trim().replace(/^\(?([A-Za-z])[).:]?$/, '$1').toUpperCase() : '';
+
+// The model occasionally answers with a sub-discipline or a spelling of its own
+const SUBJECT_ALIASES: Record<string, Subject> = {
+  PHYSICS: 'PHYSICS',
+  CHEMISTRY: 'CHEMISTRY',
+  BIOLOGY: 'BIOLOGY',
+  BOTANY: 'BIOLOGY',
+  ZOOLOGY: 'BIOLOGY',
+  MATHS: 'MATHS',
+  MATH: 'MATHS',
+  MATHEMATICS: 'MATHS',
+};
+
+export const normalizeSubject = (raw: unknown): Subject | undefined =>
+  typeof raw === 'string' ? SUBJECT_ALIASES[raw.trim().toUpperCase()] : undefined;
+
+export const normalizeOptions = (raw: unknown, issues: string[]): QuizOption[] => {
+  if (!Array.isArray(raw)) return [];
+  const options = raw
+    .filter(o => o && typeof o.text === 'string' && o.text.trim())
+    .map(o => ({ id: normalizeOptionId(o.id), text: o.text as string }));
+  if (options.length < raw.length) issues.push(`Dropped ${raw.length - options.length} empty option(s).`);
+
+  const ids = options.map(o => o.id);
+  const hasBadIds = ids.some(id => !/^[A-Z]$/.test(id)) || new Set(ids).size !== ids.length;
+  if (hasBadIds) {
+    issues.push("Option labels were missing or repeated and have been relabelled A, B, C...");
+    return options.map((o, index) => ({ ...o, id: OPTION_LABELS[index] || `${index + 1}` }));
+  }
+  return options;
+};
+
+export const normalizeBoundingBox = (raw: unknown, issues: string[]): number[] => {
+  if (raw === undefined || raw === null) return EMPTY_BOX;
+  if (!Array.isArray(raw) || raw.length !== 4 || !raw.every(isFiniteNumber)) {
+    issues.push("Diagram region was malformed and has been removed.");
+    return EMPTY_BOX;
+  }
+  if (raw.every(v => v === 0)) return EMPTY_BOX;
+
+  const [ymin, xmin, ymax, xmax] = raw.map(v => clamp(Math.round(v), 0, 1000));
+  if (ymax - ymin < MIN_BOX_SIZE || xmax - xmin < MIN_BOX_SIZE) {
+    issues.push("Diagram region was empty or inverted and has been removed.");
+    return EMPTY_BOX;
+  }
+  return [ymin, xmin, ymax, xmax];
+};
+
+// Sections as the model reports them; questions point at them by name
+interface RawSection {
+  name?: unknown;
+  instructions?: unknown;
+  attemptLimit?: unknown;
+  correctMarks?: unknown;
+  incorrectMarks?: unknown;
+  partialMarking?: unknown;
+}
+
+const sectionKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const sameMarking = (a?: MarkingScheme, b?: MarkingScheme) =>
+  a?.correct === b?.correct && a?.incorrect === b?.incorrect && a?.partialMarking === b?.partialMarking;
+
+const normalizeSectionScheme = (raw: RawSection): MarkingScheme | undefined => {
+  if (!isFiniteNumber(raw.correctMarks) || raw.correctMarks <= 0) return undefined;
+  return {
+    ...MARKING_SCHEMES.CUSTOM,
+    correct: raw.correctMarks,
+    incorrect: isFiniteNumber(raw.incorrectMarks) ? -Math.abs(raw.incorrectMarks) : 0,
+    partialMarking: raw.partialMarking === true,
+  };
+};
+
+// Builds the paper's sections from the model's list plus any section names only the questions mention,
+// and returns each question's section id. A lone section without a limit adds nothing, so it is dropped.
+const normalizeSections = (raw: unknown, questionSections: string[]): { sections: ExamSection[]; sectionIds: (string | undefined)[] } => {
+  const rawSections: RawSection[] = Array.isArray(raw) ? raw.filter(rs => rs && typeof rs.name === 'string' && rs.name.trim()) : [];
+  const byKey = new Map<string, RawSection & { name: string }>();
+  rawSections.forEach(rs => {
+    const key = sectionKey(rs.name as string);
+    if (!byKey.has(key)) byKey.set(key, { ...rs, name: (rs.name as string).trim() });
+  });
+  questionSections.forEach(name => {
+    if (name && !byKey.has(sectionKey(name))) byKey.set(sectionKey(name), { name });
+  });
+
+  const keys = [...byKey.keys()];
+  const sectionIds = questionSections.map(name => (name ? `S${keys.indexOf(sectionKey(name)) + 1}` : undefined));
+  let sections: ExamSection[] = keys.map((key, index) => {
+    const rs = byKey.get(key)!;
+    const id = `S${index + 1}`;
+    const section: ExamSection = { id, name: rs.name };
+    if (typeof rs.instructions === 'string' && rs.instructions.trim()) section.instructions = rs.instructions.trim();
+    const markingScheme = normalizeSectionScheme(rs);
+    if (markingScheme) section.markingScheme = markingScheme;
+    // A limit that covers every question is no limit at all
+    const questionCount = sectionIds.filter(sid => sid === id).length;
+    if (isFiniteNumber(rs.attemptLimit) && rs.attemptLimit >= 1 && rs.attemptLimit < questionCount) {
+      section.attemptLimit = Math.round(rs.attemptLimit);
+    }
+    return section;
+  }).filter(section => sectionIds.includes(section.id));
+
+  // Marks printed the same for every section are the paper's scheme, which the marking picker already controls
+  if (sections.every(section => sameMarking(section.markingScheme, sections[0].markingScheme))) {
+    sections.forEach(section => delete section.markingScheme);
+  }
+  if (sections.length === 1 && !sections[0].attemptLimit) sections = [];
+
+  const kept = new Set(sections.map(section => section.id));
+  return { sections, sectionIds: sectionIds.map(sid => (sid && kept.has(sid) ? sid : undefined)) };
+};
+
+const normalizeForFingerprint = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]/gu, '');
+
+// Text, options and diagram position together, so two real questions sharing a stem (e.g. "Find x.") both survive.
+// Empty when the text has no letters or digits in any script; such questions are never treated as duplicates.
+const questionFingerprint = (question: Question) => {
+  const text = normalizeForFingerprint(question.text);
+  if (!text) return '';
+  return [
+    text,
+    ...question.options.map(o => `${o.id}:${normalizeForFingerprint(o.text)}`),
+    question.pageNumber,
+    question.boundingBox?.join(','),
+  ].join('|');
+};
+
+// Checks and repairs model output before it reaches QuizSection. Questions that can't be shown are dropped;
+// everything else is kept, with a warning describing what was fixed or still looks wrong.
+export const validateQuizData = (raw: unknown, pageCount: number): ValidationResult => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Partial<QuizData>;
+  const warnings: ExtractionWarning[] = [];
+  const rawQuestions: any[] = Array.isArray(data.questions) ? data.questions : [];
+  const kept: { question: Question; section: string; issues: string[]; suspicious: string[] }[] = [];
+  const seen = new Set<string>();
+
+  rawQuestions.forEach((rq, index) => {
+    const label = `Extracted question ${index + 1}`;
+    if (!rq || typeof rq.text !== 'string' || !rq.text.trim()) {
+      warnings.push({ severity: 'error', message: `${label} had no text and was dropped.` });
+      return;
+    }
+    const issues: string[] = [];
+    const suspicious: string[] = [];
+    const options = normalizeOptions(rq.options, issues);
+    const optionIds = options.map(o => o.id);
+
+    let type: QuestionType = QUESTION_TYPES.includes(rq.type) ? rq.type : (options.length === 0 ? 'NUMERICAL' : 'SINGLE_CORRECT');
+    if (type !== 'NUMERICAL' && options.length === 0) {
+      issues.push("No options were found, so it is treated as a numerical question.");
+      type = 'NUMERICAL';
+    }
+
+    const { section, ...fields } = rq;
+    const question: Question = {
+      ...fields,
+      type,
+      text: rq.text,
+      options: type === 'NUMERICAL' ? [] : options,
+      correctOptionId: normalizeOptionId(rq.correctOptionId),
+    };
+
+    if (type === 'NUMERICAL') {
+      const numeric = isFiniteNumber(rq.numericAnswer) ? rq.numericAnswer : parseFloat(rq.correctOptionId);
+      if (Number.isFinite(numeric)) question.numericAnswer = numeric;
+      else {
+        delete question.numericAnswer;
+        suspicious.push("No numerical answer was found; it cannot be graded.");
+      }
+      question.correctOptionId = '';
+      delete question.correctOptionIds;
+    } else {
+      if (options.length < 2) suspicious.push(`Only ${options.length} option was found.`);
+
+      const correctIds = (Array.isArray(rq.correctOptionIds) ? rq.correctOptionIds : [])
+        .map(normalizeOptionId)
+        .filter((id: string) => optionIds.includes(id));
+      if (type === 'MULTIPLE_CORRECT') {
+        question.correctOptionIds = correctIds.length > 0 ? correctIds : optionIds.filter(id => id === question.correctOptionId);
+        if (question.correctOptionIds.length === 0) suspicious.push("None of the marked correct options exist.");
+      } else {
+        delete question.correctOptionIds;
+      }
+
+      if (!optionIds.includes(question.correctOptionId)) {
+        const fallback = question.correctOptionIds?.[0];
+        if (fallback) question.correctOptionId = fallback;
+        else if (type === 'SINGLE_CORRECT') suspicious.push(`Correct answer "${rq.correctOptionId ?? ''}" is not one of the options.`);
+      }
+    }
+
+    const page = isFiniteNumber(rq.pageNumber) ? Math.round(rq.pageNumber) : 1;
+    question.pageNumber = clamp(page, 1, Math.max(1, pageCount));
+    question.boundingBox = normalizeBoundingBox(rq.boundingBox, issues);
+    if (page !== question.pageNumber) {
+      issues.push(`Page ${page} does not exist in this ${pageCount}-page document.`);
+      if (question.boundingBox.some(v => v !== 0)) {
+        issues.push("Its diagram region has been removed.");
+        question.boundingBox = EMPTY_BOX;
+      }
+    }
+
+    const subject = normalizeSubject(rq.subject);
+    if (subject) question.subject = subject;
+    else delete question.subject;
+    if (typeof rq.chapter === 'string' && rq.chapter.trim()) question.chapter = rq.chapter.trim();
+    else delete question.chapter;
+    if (!DIFFICULTIES.includes(rq.difficulty)) delete question.difficulty;
+
+    if (isFiniteNumber(rq.printedNumber) && rq.printedNumber > 0) question.printedNumber = Math.round(rq.printedNumber);
+    else delete question.printedNumber;
+    // Some responses give a percentage instead of a 0-1 value
+    if (isFiniteNumber(rq.confidence)) question.confidence = clamp(rq.confidence > 1 ? rq.confidence / 100 : rq.confidence, 0, 1);
+    else delete question.confidence;
+
+    const fingerprint = questionFingerprint(question);
+    if (fingerprint && seen.has(fingerprint)) {
+      warnings.push({ severity: 'error', message: `${label} was a duplicate and was dropped.` });
+      return;
+    }
+    if (fingerprint) seen.add(fingerprint);
+
+    kept.push({ question, section: typeof section === 'string' ? section.trim() : '', issues, suspicious });
+  });
+
+  const { sections, sectionIds } = normalizeSections(data.sections, kept.map(k => k.section));
+  const questions = kept.map(({ question, issues, suspicious }, index) => {
+    const id = index + 1;
+    issues.forEach(message => warnings.push({ questionId: id, severity: 'info', message }));
+    suspicious.forEach(message => warnings.push({ questionId: id, severity: 'warning', message }));
+    const sectionId = sectionIds[index];
+    if (sectionId) question.sectionId = sectionId;
+    else delete question.sectionId;
+    return { ...question, id };
+  });
+
+  if (rawQuestions.length > 0 && questions.length === 0) {
+    warnings.push({ severity: 'error', message: "None of the extracted questions could be used." });
+  }
+
+  return {
+    quizData: {
+      ...data,
+      title: typeof data.title === 'string' && data.title.trim() ? data.title : "Mock Test",
+      questions,
+      sections: sections.length > 0 ? sections : undefined,
+    },
+    warnings,
+  };
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import PrintableReport, { PrintableReportProps } from '../components/PrintableReport';
+import { PaperSource } from '../types';
+import { renderQuestionDiagrams } from './pdfService';
+
+export type ReportInput = Omit<PrintableReportProps, 'diagrams' | 'generatedAt'> & {
+  source: PaperSource | null;
+  diagramImages?: Record<number, string>; // Used instead of the pages for imported papers
+};
+
+// Light theme on purpose: the report is meant to be printed
+const REPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font-family: Inter, system-ui, sans-serif; color: #0f172a; background: #fff; line-height: 1.5; }
+  main { max-width: 820px; margin: 0 auto; }
+  h1 { font-size: 28px; margin: 4px 0; }
+  .eyebrow { font-size: 11px; font-weight: 700; letter-spacing: 0.08em; text-transform: uppercase; color: #059669; margin: 0 0 4px; }
+  .muted { color: #64748b; font-size: 13px; margin: 0; }
+  .badge { display: inline-block; margin-top: 8px; padding: 2px 10px; border-radius: 999px; background: #fef3c7; color: #92400e; font-size: 12px; }
+  .summary { display: flex; align-items: center; gap: 32px; margin: 24px 0 32px; padding: 20px; border: 1px solid #e2e8f0; border-radius: 16px; }
+  .score { font-size: 36px; font-weight: 700; margin: 0; font-family: 'JetBrains Mono', monospace; }
+  .score span { font-size: 18px; color: #94a3b8; }
+  .breakdown { margin-top: 12px; border-collapse: collapse; font-size: 13px; }
+  .breakdown td { padding: 2px 16px 2px 0; }
+  .sections { width: 100%; margin: -8px 0 32px; border-collapse: collapse; font-size: 13px; }
+  .sections th, .sections td { padding: 6px 10px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+  .sections th { font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; }
+  .dot { display: inline-block; width: 8px; height: 8px; border-radius: 50%; margin-right: 8px; }
+  .question { border: 1px solid #e2e8f0; border-left: 4px solid; border-radius: 12px; padding: 16px 20px; margin-bottom: 16px; break-inside: avoid; page-break-inside: avoid; }
+  .question-head { display: flex; gap: 16px; align-items: baseline; font-size: 13px; margin-bottom: 8px; }
+  .diagram { display: block; max-width: 100%; max-height: 320px; margin: 8px 0; border: 1px solid #e2e8f0; border-radius: 8px; }
+  .options { list-style: none; padding: 0; margin: 12px 0; }
+  .options li { padding: 6px 10px; border-radius: 8px; margin-bottom: 4px; border: 1px solid #f1f5f9; }
+  .options li p { display: inline; margin: 0; }
+  .options li.correct { background: #ecfdf5; border-color: #a7f3d0; }
+  .options li.wrong { background: #fff1f2; border-color: #fecdd3; }
+  .options em { font-size: 11px; color: #64748b; margin-left: 6px; }
+  .note { font-size: 12px; color: #92400e; background: #fffbeb; padding: 6px 10px; border-radius: 8px; }
+  .solution { margin-top: 12px; padding: 12px 14px; background: #f8fafc; border-radius: 8px; font-size: 14px; }
+  @media print { body { padding: 0; } .summary, .question { border-color: #cbd5e1; } }
+`;
+
+// A single HTML file with diagrams inlined as data URLs and math as MathML, so it opens anywhere, offline
+export const buildReportHtml = async ({ source, diagramImages, ...report }: ReportInput): Promise<string> => {
+  const diagrams = source ? await renderQuestionDiagrams(source, report.quizData.questions) : { ...diagramImages };
+  const body = renderToStaticMarkup(React.createElement(PrintableReport, { ...report, diagrams, generatedAt: new Date() }));
+  const title = report.quizData.title.replace(/[<>&]/g, '');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title} · Rankify Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+};
+
+// Prints through a hidden frame so the browser's "Save as PDF" works without a pop-up window
+export const printReport = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+    frameWindow.addEventListener('afterprint', () => frame.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,101 @@
+import { ExamConfig, Question, QuizAttempt, QuizData, RetakeConfig, RetakeMode, SavedPaper } from "../types";
+import { QuizScore, getMarkingScheme, getQuestionType, parseMultiAnswer, serializeMultiAnswer } from "./scoringService";
+import { getDefaultExamConfig } from "./examService";
+import { OPTION_LABELS } from "./quizValidator";
+
+export const RETAKE_MODES: RetakeMode[] = ['ALL', 'INCORRECT', 'MARKED'];
+
+export const RETAKE_LABELS: Record<RetakeMode, string> = {
+  ALL: 'Whole paper',
+  INCORRECT: 'Incorrect & skipped',
+  MARKED: 'Marked for review',
+};
+
+export interface RetakeOptions {
+  mode: RetakeMode;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+// Fisher-Yates on a copy
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Question ids each kind of retake of an attempt would include, in paper order. A full retake always covers
+// the whole paper, even when the attempt itself was a retake of only some questions.
+export const getRetakeChoices = (
+  paperQuiz: QuizData,
+  results: QuizScore,
+  markedForReview: number[]
+): Record<RetakeMode, number[]> => {
+  const ids = paperQuiz.questions.map(q => q.id);
+  return {
+    ALL: ids,
+    INCORRECT: ids.filter(id => results.perQuestion[id] && results.perQuestion[id].outcome !== 'correct'),
+    MARKED: ids.filter(id => markedForReview.includes(id)),
+  };
+};
+
+export const createRetake = (quizData: QuizData, questionIds: number[], options: RetakeOptions): RetakeConfig => {
+  const retake: RetakeConfig = {
+    mode: options.mode,
+    questionIds: options.shuffleQuestions ? shuffle(questionIds) : questionIds,
+  };
+  if (options.shuffleOptions) {
+    retake.optionOrders = {};
+    quizData.questions
+      .filter(q => questionIds.includes(q.id) && getQuestionType(q) !== 'NUMERICAL')
+      .forEach(q => { retake.optionOrders![q.id] = shuffle(q.options.map(o => o.id)); });
+  }
+  return retake;
+};
+
+// Relabels the options A, B, C... in their new order and moves every answer field over to the new labels
+const reorderOptions = (question: Question, order: string[] | undefined): Question => {
+  if (!order || getQuestionType(question) === 'NUMERICAL') return question;
+  // Options added or removed in the editor since the retake started keep working
+  const ids = question.options.map(o => o.id);
+  const ordered = [...order.filter(id => ids.includes(id)), ...ids.filter(id => !order.includes(id))];
+  const relabel = new Map(ordered.map((id, index) => [id, OPTION_LABELS[index] ?? `${index + 1}`]));
+  const mapAnswer = (answer: string) => serializeMultiAnswer(parseMultiAnswer(answer).map(id => relabel.get(id) ?? id));
+
+  const reordered: Question = {
+    ...question,
+    options: ordered.map(id => ({ ...question.options.find(o => o.id === id)!, id: relabel.get(id)! })),
+    correctOptionId: relabel.get(question.correctOptionId) ?? '',
+  };
+  if (question.correctOptionIds) reordered.correctOptionIds = parseMultiAnswer(mapAnswer(question.correctOptionIds.join(',')));
+  if (question.aiAnswer) reordered.aiAnswer = mapAnswer(question.aiAnswer);
+  return reordered;
+};
+
+// The quiz as a retake shows it, rebuilt from the paper each time so edits made since still apply
+export const applyRetake = (quizData: QuizData, retake: RetakeConfig): QuizData => {
+  const byId = new Map(quizData.questions.map(q => [q.id, q]));
+  const questions = retake.questionIds
+    .map(id => byId.get(id))
+    .filter((q): q is Question => !!q)
+    .map(q => reorderOptions(q, retake.optionOrders?.[q.id]));
+  return { ...quizData, questions };
+};
+
+export const getAttemptQuiz = (paper: SavedPaper, attempt: QuizAttempt): QuizData =>
+  attempt.retake ? applyRetake(paper.quizData, attempt.retake) : paper.quizData;
+
+// Keeps the previous attempt's mode, feedback and warnings, with the duration scaled to the retake's length
+export const getRetakeExamConfig = (previous: ExamConfig | undefined, quizData: QuizData, questionCount: number): ExamConfig => {
+  const config = getDefaultExamConfig(questionCount, getMarkingScheme(quizData).id);
+  if (!previous) return config;
+  return {
+    ...config,
+    mode: previous.mode,
+    instantFeedback: previous.instantFeedback,
+    warningThresholds: previous.warningThresholds.filter(t => t < config.durationSeconds),
+  };
+};
@@ -0,0 +1,121 @@
+import { Question, QuizData, RevisionCard, SavedPaper } from "../types";
+import { MARKING_SCHEMES, QuestionOutcome, QuizScore } from "./scoringService";
+import { getPaperSource, renderQuestionDiagrams } from "./pdfService";
+import { createId, listRevisionCards, saveRevisionCard } from "./storageService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A card reviewed at this interval or longer counts as learnt
+export const MASTERED_INTERVAL_DAYS = 21;
+export const MAX_REVIEW_SIZE = 20;
+
+// SM-2 review quality (0-5) for each quiz outcome; below 3 counts as forgotten
+const REVIEW_QUALITY: Record<QuestionOutcome, number> = {
+  correct: 4,
+  partial: 3,
+  incorrect: 1,
+  skipped: 0,
+};
+
+// A review round built from due cards. Questions are renumbered 1..N since they come from different papers.
+export interface ReviewSession {
+  id: string;
+  quizData: QuizData;
+  diagramImages: Record<number, string>;
+  cards: Record<number, RevisionCard>; // Session question id -> card
+}
+
+export interface DeckEntry {
+  card: RevisionCard;
+  paper: SavedPaper;
+  question: Question;
+}
+
+export const getCardId = (paperId: string, questionId: number) => `${paperId}:${questionId}`;
+
+export const isDue = (card: RevisionCard, now = Date.now()) => card.dueAt <= now;
+
+export const isMastered = (card: RevisionCard) => card.intervalDays >= MASTERED_INTERVAL_DAYS;
+
+// New cards are due straight away, while the mistake is still fresh
+const createCard = (paperId: string, questionId: number, now: number): RevisionCard => ({
+  id: getCardId(paperId, questionId),
+  paperId,
+  questionId,
+  ease: START_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: now,
+  addedAt: now,
+});
+
+// SM-2: a forgotten card starts over with a one-day gap; a remembered one waits 1, then 6, then interval x ease days
+export const scheduleReview = (card: RevisionCard, outcome: QuestionOutcome, now = Date.now()): RevisionCard => {
+  const quality = REVIEW_QUALITY[outcome];
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return { ...card, ease, repetitions: 0, intervalDays: 1, lapses: card.lapses + 1, dueAt: now + DAY_MS, lastReviewedAt: now };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * ease);
+  return { ...card, ease, repetitions, intervalDays, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+};
+
+// Adds every wrong, partly right or skipped question of a finished attempt to the deck.
+// A question that is already in the deck counts as a lapse and comes due again.
+// quizData is the quiz as attempted, so questions a retake left out are not counted as skipped.
+export const collectMistakes = async (paperId: string, quizData: QuizData, results: QuizScore, now = Date.now()) => {
+  const existing = new Map((await listRevisionCards(paperId)).map(card => [card.questionId, card]));
+  const missed = quizData.questions.filter(q => results.perQuestion[q.id]?.outcome !== 'correct');
+
+  await Promise.all(missed.map(q => {
+    const card = existing.get(q.id);
+    const outcome = results.perQuestion[q.id].outcome;
+    return saveRevisionCard(card ? scheduleReview(card, outcome, now) : createCard(paperId, q.id, now));
+  }));
+  return missed.length;
+};
+
+export const buildReviewSession = async (entries: DeckEntry[]): Promise<ReviewSession> => {
+  const selected = entries.slice(0, MAX_REVIEW_SIZE);
+  const diagramImages: Record<number, string> = {};
+  const cards: Record<number, RevisionCard> = {};
+
+  // Diagrams are cropped up front, one paper at a time, because the quiz can only show a single document
+  const byPaper = new Map<string, DeckEntry[]>();
+  selected.forEach(entry => byPaper.set(entry.paper.id, [...(byPaper.get(entry.paper.id) ?? []), entry]));
+  const paperDiagrams = new Map<string, Record<number, string>>();
+  for (const [paperId, paperEntries] of byPaper) {
+    const { paper } = paperEntries[0];
+    const source = getPaperSource(paper);
+    paperDiagrams.set(paperId, source
+      ? await renderQuestionDiagrams(source, paperEntries.map(e => e.question))
+      : paper.diagramImages ?? {});
+  }
+
+  const questions = selected.map(({ card, paper, question }, index) => {
+    const id = index + 1;
+    cards[id] = card;
+    const diagram = paperDiagrams.get(paper.id)?.[question.id];
+    if (diagram) diagramImages[id] = diagram;
+    return { ...question, id, sectionId: undefined };
+  });
+
+  return {
+    id: createId(),
+    // One mark per question, no penalty: the score is simply how many were remembered
+    quizData: { title: "Revision Session", topic: `${questions.length} questions`, questions, markingScheme: MARKING_SCHEMES.CUSTOM },
+    diagramImages,
+    cards,
+  };
+};
+
+export const recordReviewResults = async (session: ReviewSession, results: QuizScore, now = Date.now()) => {
+  await Promise.all(Object.entries(session.cards).map(([questionId, card]) =>
+    saveRevisionCard(scheduleReview(card, results.perQuestion[Number(questionId)].outcome, now))
+  ));
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MarkingScheme, Question, QuizData } from '../types';
+import { MARKING_SCHEMES, gradeQuestion, scoreQuiz } from './scoringService';
+
+const options = ['A', 'B', 'C', 'D'].map(id => ({ id, text: `Option ${id}` }));
+
+const single: Question = { id: 1, type: 'SINGLE_CORRECT', text: 'Single', options, correctOptionId: 'B' };
+const multiple: Question = { id: 2, type: 'MULTIPLE_CORRECT', text: 'Multiple', options, correctOptionId: 'A', correctOptionIds: ['A', 'C', 'D'] };
+const numerical: Question = { id: 3, type: 'NUMERICAL', text: 'Numerical', options: [], correctOptionId: '', numericAnswer: 2.5 };
+
+const JEE_MAIN = MARKING_SCHEMES.JEE_MAIN;
+const JEE_ADVANCED = MARKING_SCHEMES.JEE_ADVANCED;
+
+describe('gradeQuestion', () => {
+  it('grades single-correct answers', () => {
+    expect(gradeQuestion(single, 'B', JEE_MAIN)).toEqual({ outcome: 'correct', marks: 4 });
+    expect(gradeQuestion(single, 'A', JEE_MAIN)).toEqual({ outcome: 'incorrect', marks: -1 });
+    expect(gradeQuestion(single, undefined, JEE_MAIN)).toEqual({ outcome: 'skipped', marks: 0 });
+  });
+
+  it('accepts numerical answers within the tolerance', () => {
+    expect(gradeQuestion(numerical, '2.51', JEE_MAIN).outcome).toBe('correct');
+    expect(gradeQuestion(numerical, '2.52', JEE_MAIN).outcome).toBe('incorrect');
+  });
+
+  it('treats a half-typed numerical entry as not attempted', () => {
+    expect(gradeQuestion(numerical, '-', JEE_MAIN)).toEqual({ outcome: 'skipped', marks: 0 });
+  });
+
+  it('needs every correct option for full marks on multiple-correct questions', () => {
+    expect(gradeQuestion(multiple, 'A,C,D', JEE_ADVANCED)).toEqual({ outcome: 'correct', marks: 4 });
+    expect(gradeQuestion(multiple, 'A,B', JEE_ADVANCED)).toEqual({ outcome: 'incorrect', marks: -2 });
+  });
+
+  it('takes partial marks per option from the scheme', () => {
+    expect(gradeQuestion(multiple, 'A,C', JEE_ADVANCED)).toEqual({ outcome: 'partial', marks: 2 });
+    const scheme: MarkingScheme = { ...JEE_ADVANCED, id: 'CUSTOM', partialMarks: 1.5 };
+    expect(gradeQuestion(multiple, 'A,C', scheme)).toEqual({ outcome: 'partial', marks: 3 });
+  });
+
+  it('marks a partly correct answer wrong when the scheme has no partial marking', () => {
+    expect(gradeQuestion(multiple, 'A,C', JEE_MAIN)).toEqual({ outcome: 'incorrect', marks: -1 });
+  });
+
+  it('leaves answered questions without an answer key ungraded', () => {
+    const unkeyed: Question = { ...numerical, numericAnswer: undefined };
+    expect(gradeQuestion(unkeyed, '7', JEE_MAIN)).toEqual({ outcome: 'skipped', marks: 0, ungraded: true });
+    expect(gradeQuestion({ ...single, correctOptionId: '' }, 'A', JEE_MAIN)).toEqual({ outcome: 'skipped', marks: 0, ungraded: true });
+  });
+});
+
+describe('scoreQuiz', () => {
+  // Section B is "attempt any 2 of 3" with its own marks; question 1 belongs to no section
+  const quizData: QuizData = {
+    title: 'Sections',
+    markingScheme: JEE_MAIN,
+    sections: [
+      { id: 'a', name: 'Section A' },
+      { id: 'b', name: 'Section B', attemptLimit: 2, markingScheme: { ...MARKING_SCHEMES.CUSTOM, correct: 3, incorrect: 0 } },
+    ],
+    questions: [
+      single,
+      { ...single, id: 2, sectionId: 'a' },
+      { ...numerical, id: 3, sectionId: 'b' },
+      { ...numerical, id: 4, sectionId: 'b' },
+      { ...numerical, id: 5, sectionId: 'b' },
+    ],
+  };
+
+  it('counts only the first answers in paper order up to the attempt limit', () => {
+    const score = scoreQuiz(quizData, { 3: '2.5', 4: '1', 5: '2.5' });
+    expect(score.perQuestion[3]).toEqual({ outcome: 'correct', marks: 3 });
+    expect(score.perQuestion[4]).toEqual({ outcome: 'incorrect', marks: 0 });
+    expect(score.perQuestion[5]).toEqual({ outcome: 'skipped', marks: 0, uncounted: true });
+    expect(score.score).toBe(3);
+  });
+
+  it('limits a section maximum to the questions that may be answered', () => {
+    const score = scoreQuiz(quizData, {});
+    const sectionB = score.sections.find(s => s.section?.id === 'b');
+    expect(sectionB?.maxMarks).toBe(6);
+    expect(score.maxMarks).toBe(4 + 4 + 6);
+  });
+
+  it('scores questions outside every section with the paper scheme', () => {
+    const score = scoreQuiz(quizData, { 1: 'A', 2: 'B' });
+    expect(score.sections.map(s => s.section?.id ?? null)).toEqual(['a', 'b', null]);
+    expect(score.score).toBe(-1 + 4);
+    expect(score.negativeMarks).toBe(1);
+  });
+});
@@ -0,0 +1,173 @@
+import { ExamSection, MarkingScheme, MarkingSchemeId, Question, QuestionType, QuizData, UserAnswers } from "../types";
+import { getSectionGroups, getUncountedQuestionIds, hasSections } from "./sectionService";
+
+// Official marking presets for the exams we support
+export const MARKING_SCHEMES: Record<MarkingSchemeId, MarkingScheme> = {
+  JEE_MAIN: { id: 'JEE_MAIN', label: 'JEE Main', correct: 4, incorrect: -1, unattempted: 0, partialMarking: false },
+  JEE_ADVANCED: { id: 'JEE_ADVANCED', label: 'JEE Advanced', correct: 4, incorrect: -2, unattempted: 0, partialMarking: true, partialMarks: 1 },
+  NEET: { id: 'NEET', label: 'NEET', correct: 4, incorrect: -1, unattempted: 0, partialMarking: false },
+  CUSTOM: { id: 'CUSTOM', label: 'Custom', correct: 1, incorrect: 0, unattempted: 0, partialMarking: false },
+};
+
+export const DEFAULT_MARKING_SCHEME = MARKING_SCHEMES.JEE_MAIN;
+
+// Pick a preset from the paper's title/topic so most uploads need no manual setup
+export const detectMarkingScheme = (quizData: Pick<QuizData, 'title' | 'topic'>): MarkingScheme => {
+  const haystack = `${quizData.title} ${quizData.topic || ''}`.toLowerCase();
+  if (haystack.includes('neet')) return MARKING_SCHEMES.NEET;
+  if (haystack.includes('advanced')) return MARKING_SCHEMES.JEE_ADVANCED;
+  return DEFAULT_MARKING_SCHEME;
+};
+
+export const getMarkingScheme = (quizData: QuizData): MarkingScheme =>
+  quizData.markingScheme || DEFAULT_MARKING_SCHEME;
+
+export const getSectionMarkingScheme = (quizData: QuizData, section: ExamSection | null): MarkingScheme =>
+  section?.markingScheme || getMarkingScheme(quizData);
+
+export const formatMarks = (marks: number) => (marks > 0 ? `+${marks}` : `${marks}`);
+
+// Numerical answers are accepted when they match to two decimal places, as in JEE
+export const NUMERIC_TOLERANCE = 0.01;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  SINGLE_CORRECT: 'Single Correct Option',
+  MULTIPLE_CORRECT: 'One or More Correct Options',
+  NUMERICAL: 'Numerical Value',
+};
+
+export const getQuestionType = (question: Question): QuestionType => question.type || 'SINGLE_CORRECT';
+
+export const parseMultiAnswer = (answer: string | undefined): string[] =>
+  answer ? answer.split(',').filter(Boolean) : [];
+
+export const serializeMultiAnswer = (optionIds: string[]) => [...optionIds].sort().join(',');
+
+export const getCorrectOptionIds = (question: Question): string[] => {
+  if (getQuestionType(question) === 'MULTIPLE_CORRECT' && question.correctOptionIds?.length) {
+    return question.correctOptionIds;
+  }
+  return question.correctOptionId ? [question.correctOptionId] : [];
+};
+
+// False when the paper has no answer for the question, e.g. a bundle shared without its answer key
+export const hasAnswerKey = (question: Question): boolean =>
+  getQuestionType(question) === 'NUMERICAL' ? question.numericAnswer !== undefined : getCorrectOptionIds(question).length > 0;
+
+// Human-readable correct answer for any question type
+export const formatCorrectAnswer = (question: Question): string => {
+  if (getQuestionType(question) === 'NUMERICAL') return question.numericAnswer?.toString() ?? '-';
+  return getCorrectOptionIds(question).join(', ');
+};
+
+export type QuestionOutcome = 'correct' | 'partial' | 'incorrect' | 'skipped';
+
+export interface QuestionResult {
+  outcome: QuestionOutcome;
+  marks: number;
+  uncounted?: boolean; // Answered past the section's attempt limit, so graded as skipped
+  ungraded?: boolean; // Answered, but there is no answer to compare with, so graded as skipped for 0 marks
+}
+
+export const gradeQuestion = (question: Question, answer: string | undefined, scheme: MarkingScheme): QuestionResult => {
+  if (!answer) return { outcome: 'skipped', marks: scheme.unattempted };
+  if (!hasAnswerKey(question)) return { outcome: 'skipped', marks: 0, ungraded: true };
+
+  switch (getQuestionType(question)) {
+    case 'NUMERICAL': {
+      const value = parseFloat(answer);
+      // A half-typed entry like "-" or "." counts as not attempted
+      if (Number.isNaN(value)) return { outcome: 'skipped', marks: scheme.unattempted };
+      const isCorrect = question.numericAnswer !== undefined
+        && Math.abs(value - question.numericAnswer) <= NUMERIC_TOLERANCE;
+      return isCorrect ? { outcome: 'correct', marks: scheme.correct } : { outcome: 'incorrect', marks: scheme.incorrect };
+    }
+    case 'MULTIPLE_CORRECT': {
+      const correctIds = getCorrectOptionIds(question);
+      const chosen = parseMultiAnswer(answer);
+      if (chosen.some(id => !correctIds.includes(id))) return { outcome: 'incorrect', marks: scheme.incorrect };
+      if (chosen.length === correctIds.length) return { outcome: 'correct', marks: scheme.correct };
+      // A strict subset of the correct options: the scheme's partial marks per option chosen
+      if (scheme.partialMarking) return { outcome: 'partial', marks: chosen.length * (scheme.partialMarks ?? 1) };
+      return { outcome: 'incorrect', marks: scheme.incorrect };
+    }
+    default:
+      if (answer === question.correctOptionId) return { outcome: 'correct', marks: scheme.correct };
+      return { outcome: 'incorrect', marks: scheme.incorrect };
+  }
+};
+
+export interface QuizScore {
+  correct: number;
+  partial: number;
+  incorrect: number;
+  skipped: number;
+  total: number;
+  score: number;
+  maxMarks: number;
+  negativeMarks: number; // Total marks lost to wrong answers (as a positive number)
+  perQuestion: Record<number, QuestionResult>;
+  sections: SectionScore[]; // Empty when the paper has no sections
+}
+
+export interface SectionScore {
+  section: ExamSection | null; // Null for questions outside every section
+  total: number;
+  attempted: number;
+  correct: number;
+  incorrect: number;
+  score: number;
+  maxMarks: number; // Only the questions the attempt limit lets you answer can score
+}
+
+export const scoreQuiz = (quizData: QuizData, userAnswers: UserAnswers): QuizScore => {
+  const summary: QuizScore = {
+    correct: 0,
+    partial: 0,
+    incorrect: 0,
+    skipped: 0,
+    total: quizData.questions.length,
+    score: 0,
+    maxMarks: 0,
+    negativeMarks: 0,
+    perQuestion: {},
+    sections: [],
+  };
+  const uncounted = getUncountedQuestionIds(quizData, userAnswers);
+
+  getSectionGroups(quizData).forEach(({ section, questionIndices }) => {
+    const scheme = getSectionMarkingScheme(quizData, section);
+    const total = questionIndices.length;
+    const sectionScore: SectionScore = {
+      section,
+      total,
+      attempted: 0,
+      correct: 0,
+      incorrect: 0,
+      score: 0,
+      maxMarks: Math.min(section?.attemptLimit ?? total, total) * scheme.correct,
+    };
+
+    questionIndices.forEach(index => {
+      const q = quizData.questions[index];
+      const result: QuestionResult = uncounted.has(q.id)
+        ? { outcome: 'skipped', marks: scheme.unattempted, uncounted: true }
+        : gradeQuestion(q, userAnswers[q.id], scheme);
+      summary.perQuestion[q.id] = result;
+      summary[result.outcome]++;
+      summary.score += result.marks;
+      if (result.marks < 0) summary.negativeMarks -= result.marks;
+
+      if (result.outcome !== 'skipped') sectionScore.attempted++;
+      if (result.outcome === 'correct') sectionScore.correct++;
+      if (result.outcome === 'incorrect') sectionScore.incorrect++;
+      sectionScore.score += result.marks;
+    });
+
+    summary.maxMarks += sectionScore.maxMarks;
+    summary.sections.push(sectionScore);
+  });
+
+  if (!hasSections(quizData)) summary.sections = [];
+  return summary;
+};
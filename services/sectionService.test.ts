@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { Question, QuizData } from '../types';
+import { getSectionGroups, getUncountedQuestionIds, isAttemptLimitReached } from './sectionService';
+
+const question = (id: number, sectionId?: string): Question =>
+  ({ id, type: 'NUMERICAL', text: `Question ${id}`, options: [], correctOptionId: '', numericAnswer: id, sectionId });
+
+const quizData: QuizData = {
+  title: 'Sections',
+  sections: [
+    { id: 'a', name: 'Section A' },
+    { id: 'b', name: 'Section B', attemptLimit: 2 },
+    { id: 'empty', name: 'Empty Section' },
+  ],
+  questions: [question(1, 'b'), question(2, 'a'), question(3, 'b'), question(4, 'gone'), question(5, 'b')],
+};
+
+describe('getSectionGroups', () => {
+  it('keeps paper order, drops empty sections and gathers orphaned questions last', () => {
+    expect(getSectionGroups(quizData).map(g => [g.section?.id ?? null, g.questionIndices])).toEqual([
+      ['a', [1]],
+      ['b', [0, 2, 4]],
+      [null, [3]],
+    ]);
+  });
+});
+
+describe('isAttemptLimitReached', () => {
+  const answers = { 1: '1', 3: '3' };
+
+  it('blocks a new answer once the limit is used up', () => {
+    expect(isAttemptLimitReached(quizData, quizData.questions[4], answers)).toBe(true);
+  });
+
+  it('still allows changing an answer that already counts', () => {
+    expect(isAttemptLimitReached(quizData, quizData.questions[0], answers)).toBe(false);
+  });
+
+  it('never limits sections without an attempt limit', () => {
+    expect(isAttemptLimitReached(quizData, quizData.questions[1], { 2: '2' })).toBe(false);
+  });
+});
+
+describe('getUncountedQuestionIds', () => {
+  it('leaves out answers past the limit in paper order', () => {
+    expect([...getUncountedQuestionIds(quizData, { 1: '1', 3: '3', 5: '5' })]).toEqual([5]);
+  });
+
+  it('counts nothing extra when the limit is not reached', () => {
+    expect(getUncountedQuestionIds(quizData, { 5: '5' }).size).toBe(0);
+  });
+});
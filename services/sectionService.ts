@@ -0,0 +1,50 @@
+import { ExamSection, Question, QuizData, UserAnswers } from "../types";
+
+export interface SectionGroup {
+  section: ExamSection | null; // Null for questions outside every section
+  questionIndices: number[]; // Positions in quizData.questions, in paper order
+}
+
+export const hasSections = (quizData: QuizData) => (quizData.sections?.length ?? 0) > 0;
+
+export const getQuestionSection = (quizData: QuizData, question: Question): ExamSection | null =>
+  quizData.sections?.find(s => s.id === question.sectionId) ?? null;
+
+// Sections in paper order, each with its questions. Empty sections are left out;
+// questions that belong to no (or a deleted) section are gathered at the end.
+export const getSectionGroups = (quizData: QuizData): SectionGroup[] => {
+  const groups: SectionGroup[] = (quizData.sections ?? []).map(section => ({ section, questionIndices: [] }));
+  const ungrouped: SectionGroup = { section: null, questionIndices: [] };
+
+  quizData.questions.forEach((q, index) => {
+    const group = groups.find(g => g.section?.id === q.sectionId) ?? ungrouped;
+    group.questionIndices.push(index);
+  });
+
+  return [...groups, ungrouped].filter(g => g.questionIndices.length > 0);
+};
+
+export const getSectionName = (section: ExamSection | null) => section?.name ?? 'General';
+
+export const countAnswered = (questions: Question[], answers: UserAnswers) =>
+  questions.filter(q => !!answers[q.id]).length;
+
+// True when answering this question would go over its section's "attempt any N" limit.
+// Changing an answer that is already counted is always allowed.
+export const isAttemptLimitReached = (quizData: QuizData, question: Question, answers: UserAnswers): boolean => {
+  const section = getQuestionSection(quizData, question);
+  if (!section?.attemptLimit || answers[question.id]) return false;
+  const sectionQuestions = quizData.questions.filter(q => q.sectionId === section.id);
+  return countAnswered(sectionQuestions, answers) >= section.attemptLimit;
+};
+
+// Answers past a section's limit are not evaluated; like NTA, the first ones in paper order count
+export const getUncountedQuestionIds = (quizData: QuizData, answers: UserAnswers): Set<number> => {
+  const uncounted = new Set<number>();
+  (quizData.sections ?? []).forEach(section => {
+    if (!section.attemptLimit) return;
+    const answered = quizData.questions.filter(q => q.sectionId === section.id && !!answers[q.id]);
+    answered.slice(section.attemptLimit).forEach(q => uncounted.add(q.id));
+  });
+  return uncounted;
+};
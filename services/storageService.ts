@@ -0,0 +1,143 @@
+import { CacheEntry, CacheKind, QuizAttempt, RevisionCard, SavedPaper } from "../types";
+
+const DB_NAME = "rankify";
+const DB_VERSION = 3;
+const PAPERS_STORE = "papers";
+const ATTEMPTS_STORE = "attempts";
+const REVISION_STORE = "revisionCards";
+const CACHE_STORE = "aiCache";
+
+// The attempt currently on screen, so a reload can reopen it
+const ACTIVE_ATTEMPT_KEY = "rankify:activeAttemptId";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PAPERS_STORE)) {
+        db.createObjectStore(PAPERS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) {
+        const attempts = db.createObjectStore(ATTEMPTS_STORE, { keyPath: "id" });
+        attempts.createIndex("paperId", "paperId");
+      }
+      if (!db.objectStoreNames.contains(REVISION_STORE)) {
+        const cards = db.createObjectStore(REVISION_STORE, { keyPath: "id" });
+        cards.createIndex("paperId", "paperId");
+      }
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        const cache = db.createObjectStore(CACHE_STORE, { keyPath: "key" });
+        cache.createIndex("kind", "kind");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const createId = () => crypto.randomUUID();
+
+// --- Papers ---
+
+export const savePaper = (paper: SavedPaper) => withStore(PAPERS_STORE, "readwrite", store => store.put(paper));
+
+export const getPaper = (id: string) =>
+  withStore<SavedPaper | undefined>(PAPERS_STORE, "readonly", store => store.get(id));
+
+export const listPapers = async (): Promise<SavedPaper[]> => {
+  const papers = await withStore<SavedPaper[]>(PAPERS_STORE, "readonly", store => store.getAll());
+  return papers.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deletePaper = async (id: string) => {
+  const [attempts, cards] = await Promise.all([listAttempts(id), listRevisionCards(id)]);
+  await Promise.all([...attempts.map(a => deleteAttempt(a.id)), ...cards.map(c => deleteRevisionCard(c.id))]);
+  await withStore(PAPERS_STORE, "readwrite", store => store.delete(id));
+};
+
+// --- Attempts ---
+
+export const saveAttempt = (attempt: QuizAttempt) => withStore(ATTEMPTS_STORE, "readwrite", store => store.put(attempt));
+
+export const getAttempt = (id: string) =>
+  withStore<QuizAttempt | undefined>(ATTEMPTS_STORE, "readonly", store => store.get(id));
+
+export const listAttempts = async (paperId?: string): Promise<QuizAttempt[]> => {
+  const attempts = await withStore<QuizAttempt[]>(ATTEMPTS_STORE, "readonly", store =>
+    paperId ? store.index("paperId").getAll(paperId) : store.getAll()
+  );
+  return attempts.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteAttempt = (id: string) => withStore(ATTEMPTS_STORE, "readwrite", store => store.delete(id));
+
+// --- Revision deck ---
+
+export const saveRevisionCard = (card: RevisionCard) => withStore(REVISION_STORE, "readwrite", store => store.put(card));
+
+export const listRevisionCards = async (paperId?: string): Promise<RevisionCard[]> => {
+  const cards = await withStore<RevisionCard[]>(REVISION_STORE, "readonly", store =>
+    paperId ? store.index("paperId").getAll(paperId) : store.getAll()
+  );
+  return cards.sort((a, b) => a.dueAt - b.dueAt);
+};
+
+export const deleteRevisionCard = (id: string) => withStore(REVISION_STORE, "readwrite", store => store.delete(id));
+
+// --- AI result cache ---
+
+export const getCacheEntry = <T>(key: string) =>
+  withStore<CacheEntry<T> | undefined>(CACHE_STORE, "readonly", store => store.get(key));
+
+export const saveCacheEntry = (entry: CacheEntry) => withStore(CACHE_STORE, "readwrite", store => store.put(entry));
+
+export const listCacheEntries = async (kind?: CacheKind): Promise<CacheEntry[]> => {
+  const entries = await withStore<CacheEntry[]>(CACHE_STORE, "readonly", store =>
+    kind ? store.index("kind").getAll(kind) : store.getAll()
+  );
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string) => withStore(CACHE_STORE, "readwrite", store => store.delete(key));
+
+export const clearCache = async (kind?: CacheKind) => {
+  if (!kind) {
+    await withStore(CACHE_STORE, "readwrite", store => store.clear());
+    return;
+  }
+  const keys = await withStore<IDBValidKey[]>(CACHE_STORE, "readonly", store => store.index("kind").getAllKeys(kind));
+  await Promise.all(keys.map(key => deleteCacheEntry(String(key))));
+};
+
+// --- Active session ---
+
+export const getActiveAttemptId = () => localStorage.getItem(ACTIVE_ATTEMPT_KEY);
+
+export const setActiveAttemptId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_ATTEMPT_KEY, id);
+  else localStorage.removeItem(ACTIVE_ATTEMPT_KEY);
+};
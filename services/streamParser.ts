@@ -0,0 +1,47 @@
+import { Question } from "../types";
+
+// Pulls every fully-streamed object out of the "questions" array of a JSON document that is still
+// arriving, so progress can be shown before the model finishes. Incomplete trailing objects are ignored.
+export const parseStreamedQuestions = (partialJson: string): Question[] => {
+  const keyIndex = partialJson.indexOf('"questions"');
+  if (keyIndex === -1) return [];
+  const arrayStart = partialJson.indexOf('[', keyIndex);
+  if (arrayStart === -1) return [];
+
+  const questions: Question[] = [];
+  let depth = 0;
+  let inString = false;
+  let isEscaped = false;
+  let objectStart = -1;
+
+  for (let i = arrayStart + 1; i < partialJson.length; i++) {
+    const char = partialJson[i];
+
+    if (inString) {
+      if (isEscaped) isEscaped = false;
+      else if (char === '\\') isEscaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0 && char === '{') objectStart = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) break; // End of the questions array
+      depth--;
+      if (depth === 0 && char === '}' && objectStart !== -1) {
+        try {
+          questions.push(JSON.parse(partialJson.slice(objectStart, i + 1)) as Question);
+        } catch {
+          // A malformed object is skipped here; the final JSON.parse reports real errors
+        }
+        objectStart = -1;
+      }
+    }
+  }
+
+  return questions;
+};
@@ -0,0 +1,78 @@
+import { Difficulty, Question, QuizData, Subject } from "../types";
+import { QuizScore } from "./scoringService";
+
+export const SUBJECT_LABELS: Record<Subject, string> = {
+  PHYSICS: 'Physics',
+  CHEMISTRY: 'Chemistry',
+  BIOLOGY: 'Biology',
+  MATHS: 'Maths',
+};
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  EASY: 'Easy',
+  MEDIUM: 'Medium',
+  HARD: 'Hard',
+};
+
+export const UNTAGGED = 'Untagged';
+
+export interface TopicStats {
+  key: string;
+  label: string;
+  subject?: Subject;
+  total: number;
+  attempted: number;
+  correct: number;
+  score: number;
+  marksLost: number; // Marks given up to wrong answers (as a positive number)
+  accuracy: number; // Correct share of attempted questions, 0-100
+}
+
+export interface TopicBreakdown {
+  subjects: TopicStats[];
+  chapters: TopicStats[]; // Worst first, so the top rows are what to revise
+}
+
+export const hasTopicTags = (quizData: QuizData) => quizData.questions.some(q => q.subject || q.chapter);
+
+const groupStats = (
+  questions: Question[],
+  results: QuizScore,
+  getKey: (q: Question) => string,
+  getLabel: (q: Question) => string
+): TopicStats[] => {
+  const groups = new Map<string, TopicStats>();
+  questions.forEach(q => {
+    const key = getKey(q);
+    const stats = groups.get(key) ?? {
+      key, label: getLabel(q), subject: q.subject, total: 0, attempted: 0, correct: 0, score: 0, marksLost: 0, accuracy: 0,
+    };
+    const result = results.perQuestion[q.id];
+    stats.total++;
+    if (result.outcome !== 'skipped') stats.attempted++;
+    if (result.outcome === 'correct') stats.correct++;
+    stats.score += result.marks;
+    if (result.marks < 0) stats.marksLost -= result.marks;
+    groups.set(key, stats);
+  });
+
+  return [...groups.values()].map(stats => ({
+    ...stats,
+    accuracy: stats.attempted > 0 ? Math.round((stats.correct / stats.attempted) * 100) : 0,
+  }));
+};
+
+export const getTopicBreakdown = (quizData: QuizData, results: QuizScore): TopicBreakdown => {
+  const subjectLabel = (q: Question) => (q.subject ? SUBJECT_LABELS[q.subject] : UNTAGGED);
+  const subjects = groupStats(quizData.questions, results, q => q.subject ?? UNTAGGED, subjectLabel);
+
+  // Chapter names are free text, so group case-insensitively within each subject
+  const chapters = groupStats(
+    quizData.questions,
+    results,
+    q => `${q.subject ?? UNTAGGED}:${(q.chapter ?? UNTAGGED).toLowerCase()}`,
+    q => q.chapter ?? UNTAGGED
+  ).sort((a, b) => b.marksLost - a.marksLost || a.accuracy - b.accuracy);
+
+  return { subjects, chapters };
+};
@@ -0,0 +1,80 @@
+import { HintLevel, InlineImage, PaperSource, Question, QuestionImage, TutorContext, TutorMessage } from "../types";
+import { formatCorrectAnswer, getQuestionType, parseMultiAnswer } from "./scoringService";
+import { hasDiagramBox, loadPaperDocument, renderDiagramToDataUrl, renderPageToJpeg } from "./pdfService";
+
+// The server rejects longer conversations (see server/index.ts)
+export const MAX_TUTOR_MESSAGES = 40;
+
+export const buildTutorContext = (question: Question, userAnswer: string | undefined): TutorContext => {
+  const questionType = getQuestionType(question);
+  const studentAnswer = questionType === 'NUMERICAL' ? userAnswer?.trim() : parseMultiAnswer(userAnswer).join(', ');
+  return {
+    questionText: question.text,
+    questionType,
+    options: question.options.map(o => ({ id: o.id, text: o.text })),
+    correctAnswer: formatCorrectAnswer(question),
+    studentAnswer: studentAnswer || undefined,
+  };
+};
+
+const parseDataUrl = (dataUrl: string): InlineImage | undefined => {
+  const match = /^data:([^;]+);base64,(.+)$/.exec(dataUrl);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+};
+
+// What the tutor sees of the question: its diagram crop, or the whole page when no diagram was marked, since
+// the extraction can miss a figure the question still depends on. Imported bundles without the pages only have crops.
+// Never throws: without an image the tutor still gets the question text.
+export const getQuestionImage = async (
+  question: Question,
+  source: PaperSource | null,
+  diagramImages?: Record<number, string>
+): Promise<QuestionImage | undefined> => {
+  try {
+    if (!source) {
+      const stored = diagramImages?.[question.id] && parseDataUrl(diagramImages[question.id]);
+      return stored ? { region: 'diagram', ...stored } : undefined;
+    }
+    if (!hasDiagramBox(question) && !question.pageNumber) return undefined;
+
+    const doc = await loadPaperDocument(source);
+    try {
+      const pageNumber = question.pageNumber || 1;
+      if (hasDiagramBox(question)) {
+        const crop = parseDataUrl(await renderDiagramToDataUrl(doc, pageNumber, question.boundingBox!));
+        return crop && { region: 'diagram', ...crop };
+      }
+      return { region: 'page', mimeType: 'image/jpeg', data: await renderPageToJpeg(doc, pageNumber) };
+    } finally {
+      doc.destroy();
+    }
+  } catch (error) {
+    console.warn("Could not render the question image for the tutor", error);
+    return undefined;
+  }
+};
+
+export interface TutorPrompt {
+  label: string;
+  text: string;
+}
+
+// One-tap starters shown above the chat input
+export const getTutorPrompts = (context: TutorContext, messages: TutorMessage[], isCorrect: boolean): TutorPrompt[] => {
+  const prompts: TutorPrompt[] = [
+    { label: 'Hint only', text: 'Give me a hint only, without revealing the answer.' },
+    { label: 'Full solution', text: 'Walk me through the full solution step by step.' },
+  ];
+  const { studentAnswer } = context;
+  if (studentAnswer && !isCorrect) {
+    prompts.push({ label: `Why not ${studentAnswer}?`, text: `Why is my answer (${studentAnswer}) wrong?` });
+  }
+  return prompts.filter(prompt => !messages.some(m => m.role === 'user' && m.text === prompt.text));
+};
+
+// Practice mode reveals these one at a time, each closer to the answer
+export const HINT_LADDER: { level: HintLevel; label: string }[] = [
+  { level: 'CONCEPT', label: 'Concept' },
+  { level: 'FIRST_STEP', label: 'First step' },
+  { level: 'NEAR_SOLUTION', label: 'Near solution' },
+];
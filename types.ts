@@ -3,30 +3,278 @@ export interface QuizOption {
   text: string;
 }
 
+export type QuestionType = 'SINGLE_CORRECT' | 'MULTIPLE_CORRECT' | 'NUMERICAL';
+
+export type Subject = 'PHYSICS' | 'CHEMISTRY' | 'BIOLOGY' | 'MATHS';
+
+export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+// Where a question's graded answer came from: the paper's printed key, the model solving it, or a manual correction
+export type AnswerSource = 'ANSWER_KEY' | 'AI_SOLVED' | 'MANUAL';
+
 export interface Question {
   id: number;
+  type?: QuestionType; // Defaults to SINGLE_CORRECT when missing
   text: string;
-  options: QuizOption[];
+  options: QuizOption[]; // Empty for NUMERICAL questions
   correctOptionId: string; // The ID of the correct option (A, B, C, or D)
+  correctOptionIds?: string[]; // All correct option IDs for MULTIPLE_CORRECT questions
+  numericAnswer?: number; // The expected value for NUMERICAL questions
   explanation?: string; // Optional explanation if the model provides it
   boundingBox?: number[]; // [ymin, xmin, ymax, xmax] normalized to 1000
   pageNumber?: number; // 1-based page number
+  subject?: Subject;
+  chapter?: string; // e.g. "Rotational Motion"; free text from the model
+  difficulty?: Difficulty;
+  sectionId?: string; // The ExamSection this question belongs to; missing on papers without sections
+  printedNumber?: number; // Question number as printed on the paper, used to look it up in the answer key
+  answerSource?: AnswerSource; // Defaults to AI_SOLVED when missing
+  confidence?: number; // The model's confidence (0-1) in its own solved answer
+  aiAnswer?: string; // The model's solved answer (UserAnswers format), kept only when it disagrees with the key
+}
+
+export type MarkingSchemeId = 'JEE_MAIN' | 'JEE_ADVANCED' | 'NEET' | 'CUSTOM';
+
+export interface MarkingScheme {
+  id: MarkingSchemeId;
+  label: string;
+  correct: number; // Marks awarded for a correct answer
+  incorrect: number; // Marks for a wrong answer (negative for penalties)
+  unattempted: number; // Marks for a skipped question
+  partialMarking: boolean; // Award partial credit on multi-correct questions (JEE Advanced)
+  partialMarks?: number; // Under partial marking, marks per correct option chosen when some are missed; 1 when missing
+}
+
+// A part of the paper with its own rules, e.g. NEET "Section B: attempt any 10 of 15"
+export interface ExamSection {
+  id: string;
+  name: string;
+  instructions?: string;
+  markingScheme?: MarkingScheme; // Overrides the paper's scheme for this section's questions
+  attemptLimit?: number; // "Attempt any N"; missing means every question may be answered
 }
 
 export interface QuizData {
   title: string;
   topic?: string;
   questions: Question[];
+  markingScheme?: MarkingScheme; // Defaults to JEE Main when missing
+  sections?: ExamSection[]; // In paper order; missing when the paper isn't split into sections
+}
+
+export interface ExtractionWarning {
+  questionId?: number; // Missing for paper-level warnings and dropped questions
+  severity: 'info' | 'warning' | 'error'; // info: auto-fixed, warning: needs a look, error: dropped
+  message: string;
+}
+
+// One line of a printed answer key, e.g. question 12 -> "B", "A,C" or "3.5"
+export interface AnswerKeyEntry {
+  questionNumber: number;
+  answer: string;
+}
+
+// Request bodies of the server's /api endpoints (see server/index.ts). Images and PDFs are base64 without a data URL prefix.
+export interface ExtractPage {
+  pageNumber: number;
+  image: string;
+  mimeType?: string; // JPEG when absent; photographed papers keep their uploaded format
+  contextOnly?: boolean; // The page after a batch, sent only so questions running over the edge are complete
+}
+
+export type ExtractRequest =
+  | { pdf: string } // A short paper, sent whole
+  | { pages: ExtractPage[]; startPage: number; endPage: number }; // One page batch of a long paper
+
+export type AnswerKeyRequest =
+  | { pdf: string } // A short PDF, sent whole
+  | { pages: ExtractPage[] }; // The last pages of a longer or photographed paper, where a printed key would be
+
+// An image sent to the model inline; data is base64 without a data URL prefix
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+// The uploaded paper: a PDF, or photos/scans of its pages in order
+export type PaperSource = { pdf: string } | { images: InlineImage[] };
+
+// What the model sees of a question: its cropped diagram, or its whole page when no diagram was marked
+export interface QuestionImage extends InlineImage {
+  region: 'diagram' | 'page';
+}
+
+export interface TutorMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// What the tutor knows about the question being discussed
+export interface TutorContext {
+  questionText: string;
+  questionType: QuestionType;
+  options: QuizOption[];
+  correctAnswer: string; // As graded, e.g. "A, C" or "3.5"
+  studentAnswer?: string; // Missing when the question was skipped
+  image?: QuestionImage;
+}
+
+export interface TutorRequest {
+  context: TutorContext;
+  messages: TutorMessage[]; // The conversation so far, ending with the student's new message
+}
+
+// The hint ladder offered in practice mode, from a nudge to nearly the whole solution
+export type HintLevel = 'CONCEPT' | 'FIRST_STEP' | 'NEAR_SOLUTION';
+
+export interface HintRequest {
+  context: TutorContext; // Without a student answer; hints are asked for before answering
+  level: HintLevel;
+  previousHints: string[]; // The hints already shown, so the next one builds on them
+}
+
+// One line of the newline-delimited JSON that /api/extract and /api/tutor stream back
+export type StreamEvent = { text: string } | { error: string } | { done: true };
+
+// What parsePdfToQuiz hands back: the repaired quiz plus what had to be repaired
+export interface ExtractionResult {
+  quizData: QuizData;
+  warnings: ExtractionWarning[];
+}
+
+export interface ExtractionProgress {
+  stage: 'preparing' | 'extracting' | 'merging' | 'done';
+  completedBatches: number;
+  totalBatches: number;
+  questionsFound: number;
+  currentPages?: [number, number]; // First and last page of the batch most recently started
+  currentPage?: number; // Page of the most recently streamed question
+  previewQuestions?: Question[]; // The first few questions extracted so far
 }
 
 export enum AppState {
   UPLOAD = 'UPLOAD',
   PROCESSING = 'PROCESSING',
+  EDIT = 'EDIT',
+  SETUP = 'SETUP',
   QUIZ = 'QUIZ',
   RESULTS = 'RESULTS',
+  HISTORY = 'HISTORY',
+  DASHBOARD = 'DASHBOARD',
+  REVISION = 'REVISION',
   ERROR = 'ERROR'
 }
 
 export interface UserAnswers {
-  [questionId: number]: string; // questionId -> selectedOptionId
-}
\ No newline at end of file
+  // questionId -> selectedOptionId. MULTIPLE_CORRECT answers are comma-joined ("A,C"),
+  // NUMERICAL answers hold the value as typed.
+  [questionId: number]: string;
+}
+
+export interface ExamConfig {
+  mode: 'timed' | 'untimed' | 'practice'; // Timed counts down and auto-submits; untimed and practice count up, practice also offers hints
+  durationSeconds: number;
+  warningThresholds: number[]; // Seconds remaining at which to warn
+  instantFeedback?: boolean; // Practice only: each answer is checked and explained as soon as it is confirmed
+}
+
+// Everything QuizSection hands back when an attempt ends
+export interface QuizSubmission {
+  answers: UserAnswers;
+  questionTimes: QuestionTimes;
+  hints: QuestionHints;
+  timedOut: boolean;
+}
+
+export interface QuestionTimes {
+  [questionId: number]: number; // questionId -> seconds spent, summed over every visit
+}
+
+export interface QuestionHints {
+  [questionId: number]: string[]; // questionId -> hints revealed in practice mode, in ladder order
+}
+
+// Snapshot of an in-progress quiz, enough to resume QuizSection exactly where it was
+export interface AttemptProgress {
+  answers: UserAnswers;
+  markedForReview: number[]; // Question IDs
+  visited: number[]; // Question indices
+  currentIndex: number;
+  elapsedSeconds: number;
+  questionTimes?: QuestionTimes; // Missing on attempts saved before time tracking existed
+  hints?: QuestionHints; // Only practice attempts have any
+  checked?: number[]; // Question IDs whose answers were confirmed with instant feedback; they can't be changed
+}
+
+export interface SavedPaper {
+  id: string;
+  quizData: QuizData;
+  pdfBase64: string | null; // Null for papers imported from a bundle or uploaded as images
+  pageImages?: InlineImage[]; // The pages of a paper uploaded as images, in order
+  diagramImages?: Record<number, string>; // Cropped diagram data URLs by question id, used when there is no PDF
+  extractionWarnings?: ExtractionWarning[];
+  createdAt: number;
+}
+
+// The fields of a Question that give away its answer; bundles shared without answers leave them out
+export type QuestionAnswerFields = Pick<
+  Question, 'correctOptionId' | 'correctOptionIds' | 'numericAnswer' | 'explanation' | 'answerSource' | 'confidence' | 'aiAnswer'
+>;
+
+// Portable export of a scanned paper. Diagrams are pre-cropped so the PDF itself never has to be shared.
+export interface QuizBundle {
+  format: 'rankify-quiz';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  quizData: QuizData; // Answer fields stripped; see answerKey
+  diagrams: Record<number, string>; // Question id -> PNG data URL
+  answerKey?: Record<number, QuestionAnswerFields>; // Question id -> answer; missing when shared without answers
+}
+
+// A question the user got wrong or skipped, scheduled for review with SM-2
+export interface RevisionCard {
+  id: string; // `${paperId}:${questionId}`, so missing the same question again updates its card
+  paperId: string;
+  questionId: number;
+  ease: number; // SM-2 ease factor, never below 1.3
+  intervalDays: number; // Gap before the next review; 0 until the first successful one
+  repetitions: number; // Successful reviews in a row
+  lapses: number; // Times it was missed again after being added
+  dueAt: number;
+  addedAt: number;
+  lastReviewedAt?: number;
+}
+
+export type CacheKind = 'extraction' | 'solution' | 'hint';
+
+// A saved AI result, so the same PDF or question is never sent to the model twice
+export interface CacheEntry<T = unknown> {
+  key: string; // `${providerId}:${kind}:${sha256}` of the PDF, or of the tutor or hint request
+  kind: CacheKind;
+  label: string; // Paper title or question preview, for the cache panel
+  value: T;
+  sizeBytes: number; // Approximate, from the JSON length
+  createdAt: number;
+}
+
+export type RetakeMode = 'ALL' | 'INCORRECT' | 'MARKED';
+
+// Which questions a retake shows and in what order. Answers in the attempt use the relabelled option ids.
+export interface RetakeConfig {
+  mode: RetakeMode;
+  questionIds: number[]; // Paper question ids, in the order shown
+  optionOrders?: Record<number, string[]>; // Question id -> paper option ids in the order shown, relabelled A, B, C...
+}
+
+export interface QuizAttempt extends AttemptProgress {
+  id: string;
+  paperId: string;
+  status: 'in_progress' | 'completed';
+  examConfig?: ExamConfig;
+  retake?: RetakeConfig; // Missing for a plain attempt of the whole paper
+  timedOut?: boolean;
+  startedAt: number;
+  deadline?: number; // Timed attempts only: when time runs out, whether or not the app is open then
+  updatedAt: number;
+  completedAt?: number;
+}
@@ -8,11 +8,15 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // API calls go to the key-holding server started with `npm run server`
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
+      // Never define the Gemini key here: anything in `define` ends up readable in the client bundle
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {